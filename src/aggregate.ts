@@ -0,0 +1,176 @@
+import type { PostHog } from "posthog-node";
+import type { AggregationOptions, CaptureOptions, TelemetrySink } from "./types.js";
+import { POSTHOG_CONSTANTS } from "./types.js";
+import { calculateCost } from "./pricing.js";
+import { createTimer } from "./capture.js";
+import { isModelListed, modelIdentityProperties } from "./models.js";
+
+/**
+ * Generations buffered for one model and distinct ID
+ */
+interface Bucket {
+  model: string;
+  distinctId: string;
+  groups?: Record<string, string>;
+  count: number;
+  errorCount: number;
+  /** Latency of every buffered generation, in seconds */
+  latencies: number[];
+  inputTokens?: number;
+  outputTokens?: number;
+  costUsd?: number;
+  /** Seconds since the first generation in the bucket */
+  getElapsed: () => number;
+}
+
+/**
+ * Buffers generations and sends one summary event per model and distinct ID
+ *
+ * A summary is sent for every bucket each `interval`, and for a single
+ * bucket as soon as it holds `maxCount` generations. Call flush() before
+ * exiting, or flushOnShutdown() to have `posthog.shutdown()` send everything
+ * still buffered.
+ */
+export class GenerationAggregator {
+  private sink: TelemetrySink;
+  private buckets: Map<string, Bucket> = new Map();
+  private timer: ReturnType<typeof setInterval> | undefined;
+  private interval: number;
+  private maxCount: number;
+  private models: string[] | undefined;
+
+  constructor(sink: TelemetrySink, options: AggregationOptions = {}) {
+    this.sink = sink;
+    this.interval = options.interval ?? 60_000;
+    this.maxCount = options.maxCount ?? 1_000;
+    this.models = options.models;
+  }
+
+  /**
+   * Whether generations of a model are aggregated rather than sent one by one
+   */
+  accepts(model: string): boolean {
+    return !this.models || isModelListed(model, this.models);
+  }
+
+  /**
+   * Adds a generation to its bucket, sending the bucket if it is full
+   */
+  add(options: CaptureOptions): void {
+    const distinctId = options.distinctId || "anonymous";
+    const key = JSON.stringify([options.model, distinctId]);
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      bucket = {
+        model: options.model,
+        distinctId,
+        groups: options.groups,
+        count: 0,
+        errorCount: 0,
+        latencies: [],
+        getElapsed: createTimer(),
+      };
+      this.buckets.set(key, bucket);
+    }
+
+    bucket.count++;
+    if (options.isError) {
+      bucket.errorCount++;
+    }
+    bucket.latencies.push(options.latency);
+    if (options.usage?.inputTokens !== undefined) {
+      bucket.inputTokens = (bucket.inputTokens ?? 0) + options.usage.inputTokens;
+    }
+    if (options.usage?.outputTokens !== undefined) {
+      bucket.outputTokens = (bucket.outputTokens ?? 0) + options.usage.outputTokens;
+    }
+    const cost = options.usage && options.pricing ? calculateCost(options.usage, options.pricing) : undefined;
+    if (cost) {
+      bucket.costUsd = (bucket.costUsd ?? 0) + cost.total;
+    }
+
+    if (bucket.count >= this.maxCount) {
+      this.buckets.delete(key);
+      this.send(bucket);
+    }
+    this.scheduleFlush();
+  }
+
+  /**
+   * Sends a summary for every buffered bucket
+   */
+  flush(): void {
+    const buckets = [...this.buckets.values()];
+    this.buckets.clear();
+    for (const bucket of buckets) {
+      this.send(bucket);
+    }
+    this.scheduleFlush();
+  }
+
+  /**
+   * Wraps a PostHog client's shutdown() so buffered summaries are sent before it flushes its queue
+   */
+  flushOnShutdown(posthog: PostHog): void {
+    const shutdown = posthog.shutdown.bind(posthog);
+    posthog.shutdown = (...args: Parameters<PostHog["shutdown"]>) => {
+      this.flush();
+      return shutdown(...args);
+    };
+  }
+
+  /**
+   * Keeps the interval timer running only while something is buffered
+   * The timer is unref'd so it never keeps the process alive on its own
+   */
+  private scheduleFlush(): void {
+    if (this.buckets.size === 0) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    } else if (!this.timer) {
+      this.timer = setInterval(() => this.flush(), this.interval);
+      this.timer.unref?.();
+    }
+  }
+
+  private send(bucket: Bucket): void {
+    const latencies = [...bucket.latencies].sort((a, b) => a - b);
+    const properties: Record<string, unknown> = {
+      $ai_provider: POSTHOG_CONSTANTS.PROVIDER,
+      ...modelIdentityProperties(bucket.model),
+      $ai_base_url: POSTHOG_CONSTANTS.BASE_URL,
+      $ai_generation_count: bucket.count,
+      $ai_error_count: bucket.errorCount,
+      $ai_latency_p50: percentile(latencies, 0.5),
+      $ai_latency_p95: percentile(latencies, 0.95),
+      $ai_latency_max: latencies[latencies.length - 1],
+      $ai_summary_duration: bucket.getElapsed(),
+    };
+    if (bucket.inputTokens !== undefined) {
+      properties.$ai_input_tokens = bucket.inputTokens;
+    }
+    if (bucket.outputTokens !== undefined) {
+      properties.$ai_output_tokens = bucket.outputTokens;
+    }
+    if (bucket.costUsd !== undefined) {
+      properties.$ai_total_cost_usd = bucket.costUsd;
+    }
+
+    this.sink.capture({
+      distinctId: bucket.distinctId,
+      event: POSTHOG_CONSTANTS.SUMMARY_EVENT_NAME,
+      properties,
+      groups: bucket.groups,
+    });
+  }
+}
+
+/**
+ * Nearest-rank percentile of sorted values
+ */
+function percentile(sorted: number[], p: number): number | undefined {
+  if (sorted.length === 0) {
+    return undefined;
+  }
+  return sorted[Math.max(0, Math.ceil(p * sorted.length) - 1)];
+}
@@ -0,0 +1,193 @@
+import { createHash } from "node:crypto";
+import type { CachedResponse, CacheOptions, ResponseCacheStore } from "./types.js";
+import { isModelListed } from "./models.js";
+import { LruMap } from "./lru.js";
+import { isPlainObject } from "./objects.js";
+
+const DEFAULT_CACHE_TTL = 60 * 60;
+
+/**
+ * Caches the outputs of run() by model and input
+ *
+ * Keys combine the model identifier, including its version when known, with
+ * a hash of the input in canonical form, so inputs that only differ in key
+ * order share an entry. Only outputs that are plain JSON data are cached;
+ * FileOutput streams can only be read once, so clients should set
+ * `useFileOutput: false` to cache file outputs as URLs.
+ */
+export class ResponseCache {
+  private store: ResponseCacheStore;
+  private ttl: number;
+  private models: string[] | undefined;
+
+  constructor(options: CacheOptions) {
+    this.store = options.store ?? new InMemoryResponseCacheStore();
+    this.ttl = options.ttl ?? DEFAULT_CACHE_TTL;
+    this.models = options.models;
+  }
+
+  /**
+   * The cache key for a call
+   *
+   * @param model - Model identifier, as "owner/name" or "owner/name:version"
+   * @param input - Input of the call
+   * @returns The key, or undefined when the model isn't cached or the input holds
+   *   values without a canonical form, such as Blobs and streams
+   */
+  key(model: string, input: unknown): string | undefined {
+    if (this.models && !isModelListed(model, this.models)) {
+      return undefined;
+    }
+    const canonical = canonicalJson(input);
+    if (canonical === undefined) {
+      return undefined;
+    }
+    return `${model}#${createHash("sha256").update(canonical).digest("hex")}`;
+  }
+
+  /**
+   * Looks up a cached response
+   * A failing store counts as a miss, so the model is called instead
+   */
+  async get(key: string): Promise<CachedResponse | undefined> {
+    try {
+      return await this.store.get(key);
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Caches the output of a successful call, unless it isn't plain JSON data
+   * A failing store leaves the output uncached rather than failing the call
+   */
+  async set(key: string, response: CachedResponse): Promise<void> {
+    if (!isJsonData(response.output)) {
+      return;
+    }
+    try {
+      await this.store.set(key, response, this.ttl);
+    } catch {
+      // Left uncached
+    }
+  }
+}
+
+/**
+ * An entry in the in-memory cache along with its expiry time
+ */
+interface CacheEntry {
+  /** When the entry expires, in milliseconds since the epoch */
+  expiresAt: number;
+  /** The cached response */
+  response: CachedResponse;
+}
+
+/**
+ * Options for InMemoryResponseCacheStore
+ */
+export interface InMemoryResponseCacheStoreOptions {
+  /** Maximum number of responses to keep before evicting the least recently used (defaults to 1,000) */
+  maxSize?: number;
+}
+
+/**
+ * Bounded in-memory response cache with least-recently-used eviction
+ *
+ * This is the default store. Responses are copied in and out, so callers
+ * can modify the outputs they get without changing the cached ones.
+ */
+export class InMemoryResponseCacheStore implements ResponseCacheStore {
+  private entries: LruMap<string, CacheEntry>;
+
+  constructor(options: InMemoryResponseCacheStoreOptions = {}) {
+    this.entries = new LruMap(options.maxSize ?? 1000);
+  }
+
+  async get(key: string): Promise<CachedResponse | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return structuredClone(entry.response);
+  }
+
+  async set(key: string, response: CachedResponse, ttlSeconds: number): Promise<void> {
+    this.entries.set(key, { response: structuredClone(response), expiresAt: Date.now() + ttlSeconds * 1000 });
+  }
+
+  /** Number of responses currently cached, including expired ones not yet evicted */
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+/**
+ * Serializes a value as JSON with object keys sorted
+ *
+ * Bytes are replaced by their hash and dates by their ISO string. Returns
+ * undefined for values without a canonical form.
+ */
+export function canonicalJson(value: unknown): string | undefined {
+  if (value === null || typeof value === "string" || typeof value === "boolean") {
+    return JSON.stringify(value);
+  }
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? JSON.stringify(value) : undefined;
+  }
+  if (value instanceof Date) {
+    return JSON.stringify(value.toISOString());
+  }
+  if (ArrayBuffer.isView(value) || value instanceof ArrayBuffer) {
+    const bytes = value instanceof ArrayBuffer
+      ? new Uint8Array(value)
+      : new Uint8Array(value.buffer, value.byteOffset, value.byteLength);
+    return JSON.stringify({ $bytes: createHash("sha256").update(bytes).digest("hex") });
+  }
+  if (Array.isArray(value)) {
+    const items: string[] = [];
+    for (const item of value) {
+      const canonical = canonicalJson(item);
+      if (canonical === undefined) {
+        return undefined;
+      }
+      items.push(canonical);
+    }
+    return `[${items.join(",")}]`;
+  }
+  if (isPlainObject(value)) {
+    const fields: string[] = [];
+    for (const key of Object.keys(value).sort()) {
+      if (value[key] === undefined) {
+        continue;
+      }
+      const canonical = canonicalJson(value[key]);
+      if (canonical === undefined) {
+        return undefined;
+      }
+      fields.push(`${JSON.stringify(key)}:${canonical}`);
+    }
+    return `{${fields.join(",")}}`;
+  }
+  return undefined;
+}
+
+/**
+ * Whether a value is made only of strings, numbers, booleans, null, arrays and plain objects
+ */
+function isJsonData(value: unknown): boolean {
+  if (value === null || typeof value === "string" || typeof value === "boolean") {
+    return true;
+  }
+  if (typeof value === "number") {
+    return Number.isFinite(value);
+  }
+  if (Array.isArray(value)) {
+    return value.every(isJsonData);
+  }
+  return isPlainObject(value) && Object.values(value).every((item) => item === undefined || isJsonData(item));
+}
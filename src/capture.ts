@@ -1,67 +1,187 @@
-import type { PostHog } from "posthog-node";
-import type { CaptureOptions } from "./types.js";
+import type {
+  CaptureOptions,
+  EvaluationCaptureOptions,
+  LogCaptureOptions,
+  OutputFormatter,
+  OutputValidator,
+  RedactOptions,
+  SpanCaptureOptions,
+  TelemetrySink,
+} from "./types.js";
 import { POSTHOG_CONSTANTS } from "./types.js";
+import { calculateCost } from "./pricing.js";
+import { applyRedaction, maskString } from "./redact.js";
+import { summarizeMedia } from "./media.js";
+import { sampleEvent } from "./sampling.js";
+import { classifyError } from "./errors.js";
+import { formatOutputContent } from "./formatters.js";
+import { modelIdentityProperties } from "./models.js";
+
+const DEFAULT_MAX_LOG_LENGTH = 4000;
 
 /**
- * Captures an AI generation event to PostHog
+ * Captures an AI generation event
  *
  * This function sends a `$ai_generation` event with all relevant properties
  * following the PostHog LLM analytics schema.
  *
- * @param posthog - The PostHog client instance
+ * @param sink - Where the event is sent
  * @param options - Options containing all the data to capture
  */
 export function captureGeneration(
-  posthog: PostHog,
+  sink: TelemetrySink,
   options: CaptureOptions
 ): void {
+  // Aggregated models are counted in a periodic summary instead of sent one by one
+  if (options.aggregator?.accepts(options.model)) {
+    options.aggregator.add(options);
+    return;
+  }
+
+  const sampling = options.sampling && sampleEvent(options.sampling, options);
+  if (sampling && !sampling.sampled) {
+    return;
+  }
+
   const properties: Record<string, unknown> = {
     // Core properties (always captured)
     $ai_provider: POSTHOG_CONSTANTS.PROVIDER,
-    $ai_model: options.model,
+    ...modelIdentityProperties(options.model),
     $ai_latency: options.latency,
     $ai_http_status: options.httpStatus,
     $ai_base_url: POSTHOG_CONSTANTS.BASE_URL,
     $ai_is_error: options.isError,
   };
 
+  // Record the rate so sampled events can be weighted back up
+  if (sampling) {
+    properties.$ai_sample_rate = sampling.rate;
+  }
+
   // Add error details if present
   if (options.isError && options.error) {
     properties.$ai_error = formatError(options.error);
   }
 
-  // Add input/output unless privacy mode is enabled
+  // Cancellations are an outcome of their own rather than an error
+  if (options.canceled) {
+    properties.$ai_canceled = true;
+  }
+
+  // Normalized cause, so model failures can be told apart from transport failures
+  if (options.isError || options.canceled) {
+    const classification = classifyError(options);
+    properties.$ai_error_type = classification.type;
+    if (classification.code) {
+      properties.$ai_error_code = classification.code;
+    }
+    if (classification.detail) {
+      properties.$ai_error_detail = classification.detail;
+    }
+  }
+
+  if (options.retryCount !== undefined) {
+    properties.$ai_retry_count = options.retryCount;
+  }
+
+  // Validation sees the raw output, so mismatches are recorded in privacy mode too
+  if (options.outputValidator && options.output !== undefined && !options.isError) {
+    const validationError = validateOutput(options.outputValidator, options.output, options.model);
+    if (validationError !== undefined) {
+      properties.$ai_validation_error = validationError;
+    }
+  }
+
+  // Add input/output unless privacy mode is enabled, replacing media with
+  // compact descriptors and redacting them first
   if (!options.privacyMode) {
     if (options.input !== undefined) {
-      properties.$ai_input = formatInput(options.input);
+      const input = summarizeMedia(options.input);
+      properties.$ai_input = formatInput(options.redact ? applyRedaction(input, options.redact, "input") : input);
     }
     if (options.output !== undefined) {
-      properties.$ai_output_choices = formatOutput(options.output);
+      const output = summarizeMedia(options.output);
+      properties.$ai_output_choices = formatOutput(
+        options.redact ? applyRedaction(output, options.redact, "output") : output,
+        options.model,
+        options.outputFormatter
+      );
     }
   }
 
+  // Logs follow the privacy mode too, and can hold the same secrets as inputs
+  if (options.logCapture && options.logs && !options.privacyMode) {
+    properties.$ai_logs = formatLogs(options.logs, options.logCapture, options.redact);
+  }
+
   // Add trace ID if provided
   if (options.traceId) {
     properties.$ai_trace_id = options.traceId;
   }
 
+  // Identify the generation so feedback and metrics can refer to it
+  if (options.generationId) {
+    properties.$ai_span_id = options.generationId;
+  }
+
+  // Link the generation to its parent span
+  if (options.parentId) {
+    properties.$ai_parent_id = options.parentId;
+  }
+
   // Add streaming flag if applicable
   if (options.stream !== undefined) {
     properties.$ai_stream = options.stream;
   }
 
+  // Add streaming timings and throughput
+  if (options.streamMetrics) {
+    const metrics = options.streamMetrics;
+    if (metrics.timeToFirstToken !== undefined) {
+      properties.$ai_time_to_first_token = metrics.timeToFirstToken;
+    }
+    properties.$ai_stream_chunk_count = metrics.chunkCount;
+    if (metrics.tokensPerSecond !== undefined) {
+      properties.$ai_tokens_per_second = metrics.tokensPerSecond;
+    }
+    if (metrics.doneDelay !== undefined) {
+      properties.$ai_stream_done_delay = metrics.doneDelay;
+    }
+    properties.$ai_stream_stopped_early = metrics.stoppedEarly;
+  }
+
   // Add prediction ID as a custom property (Replicate-specific)
   if (options.predictionId) {
     properties.$ai_prediction_id = options.predictionId;
   }
 
+  // Add token usage and estimated cost when Replicate reported metrics
+  if (options.usage) {
+    if (options.usage.inputTokens !== undefined) {
+      properties.$ai_input_tokens = options.usage.inputTokens;
+    }
+    if (options.usage.outputTokens !== undefined) {
+      properties.$ai_output_tokens = options.usage.outputTokens;
+    }
+    const cost = options.pricing ? calculateCost(options.usage, options.pricing) : undefined;
+    if (cost) {
+      if (cost.input !== undefined) {
+        properties.$ai_input_cost_usd = cost.input;
+      }
+      if (cost.output !== undefined) {
+        properties.$ai_output_cost_usd = cost.output;
+      }
+      properties.$ai_total_cost_usd = cost.total;
+    }
+  }
+
   // Merge in any custom properties (they can include $ai_span_name, $ai_session_id, etc.)
   if (options.customProperties) {
     Object.assign(properties, options.customProperties);
   }
 
-  // Send the event to PostHog
-  posthog.capture({
+  // Send the event to the sink
+  sink.capture({
     distinctId: options.distinctId || "anonymous",
     event: POSTHOG_CONSTANTS.EVENT_NAME,
     properties,
@@ -69,6 +189,178 @@ export function captureGeneration(
   });
 }
 
+/**
+ * Captures an AI span event
+ *
+ * Spans describe a step that isn't itself a model generation, such as a
+ * stage of a pipeline or polling a prediction that hasn't finished yet.
+ *
+ * @param sink - Where the event is sent
+ * @param options - Options containing all the data to capture
+ */
+export function captureSpan(
+  sink: TelemetrySink,
+  options: SpanCaptureOptions
+): void {
+  captureSpanEvent(sink, POSTHOG_CONSTANTS.SPAN_EVENT_NAME, options);
+}
+
+/**
+ * Captures an AI trace event
+ *
+ * The trace event describes a whole pipeline; its spans and generations
+ * share its `$ai_trace_id`.
+ *
+ * @param sink - Where the event is sent
+ * @param options - Options containing all the data to capture
+ */
+export function captureTrace(
+  sink: TelemetrySink,
+  options: SpanCaptureOptions
+): void {
+  captureSpanEvent(sink, POSTHOG_CONSTANTS.TRACE_EVENT_NAME, options);
+}
+
+/**
+ * Captures a feedback event for a generation
+ *
+ * Sends a `$ai_feedback` event linked to the generation through
+ * `$ai_generation_id` and `$ai_trace_id`.
+ *
+ * @param sink - Where the event is sent
+ * @param options - The generation and who the event is attributed to
+ * @param feedback - The score, label and comment, with the comment already redacted
+ */
+export function captureFeedback(
+  sink: TelemetrySink,
+  options: EvaluationCaptureOptions,
+  feedback: { score?: number; label?: string; comment?: string }
+): void {
+  captureEvaluationEvent(sink, POSTHOG_CONSTANTS.FEEDBACK_EVENT_NAME, options, {
+    ...(feedback.score !== undefined && { $ai_feedback_score: feedback.score }),
+    ...(feedback.label !== undefined && { $ai_feedback_label: feedback.label }),
+    ...(feedback.comment !== undefined && { $ai_feedback_text: feedback.comment }),
+  });
+}
+
+/**
+ * Captures a metric event for a generation
+ *
+ * Sends a `$ai_metric` event linked to the generation through
+ * `$ai_generation_id` and `$ai_trace_id`.
+ *
+ * @param sink - Where the event is sent
+ * @param options - The generation and who the event is attributed to
+ * @param metric - Name and value of the metric
+ */
+export function captureMetric(
+  sink: TelemetrySink,
+  options: EvaluationCaptureOptions,
+  metric: { name: string; value: unknown }
+): void {
+  captureEvaluationEvent(sink, POSTHOG_CONSTANTS.METRIC_EVENT_NAME, options, {
+    $ai_metric_name: metric.name,
+    $ai_metric_value: metric.value,
+  });
+}
+
+/**
+ * Sends a feedback or metric event, which share the properties linking them to a generation
+ * Sampled by the generation's model and IDs, so they are kept with the generation they refer to
+ */
+function captureEvaluationEvent(
+  sink: TelemetrySink,
+  event: string,
+  options: EvaluationCaptureOptions,
+  values: Record<string, unknown>
+): void {
+  const sampling = options.sampling && sampleEvent(options.sampling, options);
+  if (sampling && !sampling.sampled) {
+    return;
+  }
+
+  const properties: Record<string, unknown> = {
+    $ai_provider: POSTHOG_CONSTANTS.PROVIDER,
+    $ai_generation_id: options.generationId,
+    ...(options.model && modelIdentityProperties(options.model)),
+    ...values,
+  };
+  if (sampling) {
+    properties.$ai_sample_rate = sampling.rate;
+  }
+  if (options.traceId) {
+    properties.$ai_trace_id = options.traceId;
+  }
+  if (options.customProperties) {
+    Object.assign(properties, options.customProperties);
+  }
+
+  sink.capture({
+    distinctId: options.distinctId || "anonymous",
+    event,
+    properties,
+    groups: options.groups,
+  });
+}
+
+/**
+ * Sends a span or trace event, which share the same properties
+ */
+function captureSpanEvent(
+  sink: TelemetrySink,
+  event: string,
+  options: SpanCaptureOptions
+): void {
+  const sampling = options.sampling && sampleEvent(options.sampling, options);
+  if (sampling && !sampling.sampled) {
+    return;
+  }
+
+  const properties: Record<string, unknown> = {
+    $ai_provider: POSTHOG_CONSTANTS.PROVIDER,
+    $ai_span_name: options.name,
+    $ai_latency: options.latency,
+    $ai_is_error: options.isError ?? false,
+  };
+
+  if (sampling) {
+    properties.$ai_sample_rate = sampling.rate;
+  }
+
+  if (options.isError && options.error) {
+    properties.$ai_error = formatError(options.error);
+  }
+  if (options.traceId) {
+    properties.$ai_trace_id = options.traceId;
+  }
+  if (options.spanId) {
+    properties.$ai_span_id = options.spanId;
+  }
+  if (options.parentId) {
+    properties.$ai_parent_id = options.parentId;
+  }
+  if (!options.privacyMode) {
+    if (options.inputState !== undefined) {
+      const inputState = summarizeMedia(options.inputState);
+      properties.$ai_input_state = options.redact ? applyRedaction(inputState, options.redact, "input") : inputState;
+    }
+    if (options.outputState !== undefined) {
+      const outputState = summarizeMedia(options.outputState);
+      properties.$ai_output_state = options.redact ? applyRedaction(outputState, options.redact, "output") : outputState;
+    }
+  }
+  if (options.customProperties) {
+    Object.assign(properties, options.customProperties);
+  }
+
+  sink.capture({
+    distinctId: options.distinctId || "anonymous",
+    event,
+    properties,
+    groups: options.groups,
+  });
+}
+
 /**
  * Formats input for PostHog event
  * Converts to the expected array format with role/content structure
@@ -88,17 +380,46 @@ function formatInput(input: unknown): Array<{ role: string; content: unknown }>
  * Formats output for PostHog event
  * Converts to the expected array format with role/content structure
  */
-function formatOutput(output: unknown): Array<{ role: string; content: unknown }> {
+function formatOutput(
+  output: unknown,
+  model: string,
+  formatter: OutputFormatter | undefined
+): Array<{ role: string; content: unknown }> {
   // Replicate outputs vary by model - could be string, array, object, URL, etc.
-  // We wrap them in a standard format for consistency with PostHog schema
+  // The content is shaped by the model's formatter, or by what the output holds
   return [
     {
       role: "assistant",
-      content: output,
+      content: formatter ? formatter(output, model) : formatOutputContent(output),
     },
   ];
 }
 
+/**
+ * Runs an output validator, returning its message when the output doesn't match
+ */
+function validateOutput(validator: OutputValidator, output: unknown, model: string): string | undefined {
+  try {
+    const result = validator(output, model);
+    return typeof result === "string" ? result : undefined;
+  } catch (err) {
+    return err instanceof Error ? err.message : String(err);
+  }
+}
+
+/**
+ * Masks prediction logs and truncates them, keeping the most recent lines
+ */
+function formatLogs(logs: string, options: LogCaptureOptions, redact: RedactOptions | undefined): string {
+  const masked = redact ? maskString(logs, redact) : logs;
+  const maxLength = options.maxLength ?? DEFAULT_MAX_LOG_LENGTH;
+  if (masked.length <= maxLength) {
+    return masked;
+  }
+  const removed = masked.length - maxLength;
+  return `[truncated ${removed} chars]...${masked.slice(removed)}`;
+}
+
 /**
  * Formats an error for inclusion in PostHog event
  */
@@ -127,3 +448,73 @@ export function createTimer(): () => number {
   const start = performance.now();
   return () => (performance.now() - start) / 1000;
 }
+
+/**
+ * Reads Replicate's own timings from a prediction
+ * Queue time is the gap between created_at and started_at, and total time
+ * the gap between created_at and completed_at, both in seconds
+ */
+export function extractPredictionTimings(prediction: unknown): { queueTime?: number; predictTime?: number; totalTime?: number } {
+  if (!prediction || typeof prediction !== "object") {
+    return {};
+  }
+  const { created_at, started_at, completed_at, metrics } = prediction as Record<string, unknown>;
+  const timings: { queueTime?: number; predictTime?: number; totalTime?: number } = {};
+
+  const queueTime = secondsBetween(created_at, started_at);
+  if (queueTime !== undefined) {
+    timings.queueTime = queueTime;
+  }
+  const totalTime = secondsBetween(created_at, completed_at);
+  if (totalTime !== undefined) {
+    timings.totalTime = totalTime;
+  }
+  if (metrics && typeof metrics === "object") {
+    const predictTime = (metrics as Record<string, unknown>).predict_time;
+    if (typeof predictTime === "number") {
+      timings.predictTime = predictTime;
+    }
+  }
+  return timings;
+}
+
+/**
+ * Seconds between two ISO timestamps, or undefined if either is missing
+ */
+function secondsBetween(from: unknown, to: unknown): number | undefined {
+  if (typeof from !== "string" || typeof to !== "string") {
+    return undefined;
+  }
+  const ms = Date.parse(to) - Date.parse(from);
+  return Number.isNaN(ms) ? undefined : Math.max(0, ms) / 1000;
+}
+
+/**
+ * Extract HTTP status code from an error
+ */
+export function extractHttpStatus(err: unknown): number | undefined {
+  if (err && typeof err === "object") {
+    const errorObj = err as Record<string, unknown>;
+    if (typeof errorObj.status === "number") {
+      return errorObj.status;
+    }
+    if (typeof errorObj.statusCode === "number") {
+      return errorObj.statusCode;
+    }
+    // Replicate errors often have a response object
+    if (errorObj.response && typeof errorObj.response === "object") {
+      const response = errorObj.response as Record<string, unknown>;
+      if (typeof response.status === "number") {
+        return response.status;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Whether a prediction status is final
+ */
+export function isTerminalStatus(status: unknown): boolean {
+  return status === "succeeded" || status === "failed" || status === "canceled";
+}
@@ -0,0 +1,78 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import type { PostHogTrackingOptions, TrackingContext } from "./types.js";
+
+const storage = new AsyncLocalStorage<TrackingContext>();
+
+/**
+ * Runs a function with a tracking context that instrumented calls inherit
+ *
+ * Every run(), stream(), predictions.create() and predictions.get() call made
+ * inside `fn`, including in awaited callbacks and nested async functions,
+ * picks up the context without passing tracking options explicitly. Nested
+ * contexts are merged over the enclosing one, and explicit per-call options
+ * still take precedence.
+ *
+ * @param context - Tracking values to propagate
+ * @param fn - Function to run inside the context
+ * @returns The return value of `fn`
+ *
+ * @example
+ * ```typescript
+ * await withPostHogContext({ distinctId: user.id, traceId: requestId }, async () => {
+ *   const caption = await replicate.run("salesforce/blip", { input: { image } });
+ *   return replicate.run("stability-ai/sdxl", { input: { prompt: String(caption) } });
+ * });
+ * ```
+ */
+export function withPostHogContext<T>(context: TrackingContext, fn: () => T): T {
+  const current = storage.getStore();
+  const merged: TrackingContext = current
+    ? {
+        ...current,
+        ...definedValues(context),
+        properties: current.properties || context.properties
+          ? { ...current.properties, ...context.properties }
+          : undefined,
+        groups: current.groups || context.groups
+          ? { ...current.groups, ...context.groups }
+          : undefined,
+      }
+    : context;
+  return storage.run(merged, fn);
+}
+
+/**
+ * Runs a function inside a trace, so every generation in it shares the trace ID
+ *
+ * @param traceId - Trace ID to apply to instrumented calls
+ * @param fn - Function to run inside the trace
+ * @returns The return value of `fn`
+ */
+export function runInTrace<T>(traceId: string, fn: () => T): T {
+  return withPostHogContext({ traceId }, fn);
+}
+
+/**
+ * Returns the tracking context of the current async execution, if any
+ */
+export function getPostHogContext(): TrackingContext | undefined {
+  return storage.getStore();
+}
+
+/**
+ * Converts a tracking context to the equivalent per-call tracking options
+ */
+export function contextToTrackingOptions(context: TrackingContext): PostHogTrackingOptions {
+  return {
+    posthogDistinctId: context.distinctId,
+    posthogTraceId: context.traceId,
+    posthogParentId: context.parentId,
+    posthogProperties: context.properties,
+    posthogGroups: context.groups,
+    posthogPrivacyMode: context.privacyMode,
+  };
+}
+
+function definedValues(context: TrackingContext): Partial<TrackingContext> {
+  return Object.fromEntries(Object.entries(context).filter(([, value]) => value !== undefined));
+}
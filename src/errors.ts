@@ -0,0 +1,186 @@
+import type { ErrorType } from "./types.js";
+import { extractHttpStatus } from "./capture.js";
+import { QuotaExceededError } from "./quota.js";
+
+/**
+ * Outcome of classifying an error
+ */
+export interface ErrorClassification {
+  /** Normalized cause, sent as `$ai_error_type` */
+  type: ErrorType;
+  /** HTTP status, system error code or Replicate error code, sent as `$ai_error_code` */
+  code?: string;
+  /** The `detail` of a Replicate API error response, sent as `$ai_error_detail` */
+  detail?: string;
+}
+
+/**
+ * Safety checker messages of models that filter NSFW inputs or outputs
+ */
+const NSFW_PATTERN = /nsfw|safety checker|flagged as sensitive|sensitive content/i;
+
+/**
+ * Replicate error codes such as "E005", appended to some error messages
+ */
+const REPLICATE_ERROR_CODE_PATTERN = /\b(E\d{3,4})\b/;
+
+const TIMEOUT_PATTERN = /timed out|timeout/i;
+
+/**
+ * System error codes raised when a request never got a response
+ */
+const NETWORK_ERROR_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ENOTFOUND",
+  "EAI_AGAIN",
+  "EPIPE",
+  "EHOSTUNREACH",
+  "ENETUNREACH",
+  "UND_ERR_SOCKET",
+]);
+
+const TIMEOUT_ERROR_CODES = new Set([
+  "ETIMEDOUT",
+  "UND_ERR_CONNECT_TIMEOUT",
+  "UND_ERR_HEADERS_TIMEOUT",
+  "UND_ERR_BODY_TIMEOUT",
+]);
+
+/**
+ * Classifies a failed or canceled call
+ *
+ * Calls rejected by a quota limit are classified as `quota_exceeded`.
+ * Model failures, reported by a prediction that ran and failed, are
+ * classified from the prediction's error and logs. Transport failures are
+ * classified from the HTTP status and the `detail` of the Replicate API
+ * error response, or from the system error code when the request never got
+ * a response.
+ *
+ * @param options - The error, whether the call was canceled or failed in
+ *   the model, and the prediction logs
+ * @returns The error type, and the code and API detail when known
+ */
+export function classifyError(options: {
+  error?: unknown;
+  canceled?: boolean;
+  modelFailure?: boolean;
+  logs?: string;
+}): ErrorClassification {
+  const { error, canceled, modelFailure, logs } = options;
+  if (canceled) {
+    return { type: "canceled" };
+  }
+  if (error instanceof QuotaExceededError) {
+    return { type: "quota_exceeded" };
+  }
+
+  const message = errorMessage(error);
+  if (modelFailure) {
+    const code = REPLICATE_ERROR_CODE_PATTERN.exec(message)?.[1];
+    let type: ErrorType = "model_error";
+    if (NSFW_PATTERN.test(message) || (logs !== undefined && NSFW_PATTERN.test(logs))) {
+      type = "nsfw_filtered";
+    } else if (TIMEOUT_PATTERN.test(message)) {
+      type = "timeout";
+    }
+    return code ? { type, code } : { type };
+  }
+
+  const status = extractHttpStatus(error);
+  if (status !== undefined) {
+    const detail = parseApiErrorDetail(error);
+    const classification: ErrorClassification = { type: classifyHttpStatus(status, detail), code: String(status) };
+    if (detail) {
+      classification.detail = detail;
+    }
+    return classification;
+  }
+
+  const systemCode = extractSystemErrorCode(error);
+  const name = error instanceof Error ? error.name : undefined;
+  if (name === "TimeoutError" || (systemCode && TIMEOUT_ERROR_CODES.has(systemCode))) {
+    return systemCode ? { type: "timeout", code: systemCode } : { type: "timeout" };
+  }
+  if ((systemCode && NETWORK_ERROR_CODES.has(systemCode)) || error instanceof TypeError) {
+    return systemCode ? { type: "network", code: systemCode } : { type: "network" };
+  }
+  return { type: "unknown" };
+}
+
+/**
+ * Reads the `detail` of a Replicate API error
+ *
+ * The Replicate client puts the response body, a JSON problem document, at
+ * the end of the error message; errors that carry `detail` directly are
+ * read as is.
+ */
+export function parseApiErrorDetail(error: unknown): string | undefined {
+  if (error && typeof error === "object") {
+    const detail = (error as { detail?: unknown }).detail;
+    if (typeof detail === "string") {
+      return detail;
+    }
+  }
+  const message = errorMessage(error);
+  const start = message.indexOf("{");
+  const end = message.lastIndexOf("}");
+  if (start === -1 || end <= start) {
+    return undefined;
+  }
+  try {
+    const body = JSON.parse(message.slice(start, end + 1)) as { detail?: unknown; title?: unknown };
+    if (typeof body.detail === "string") {
+      return body.detail;
+    }
+    return typeof body.title === "string" ? body.title : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function classifyHttpStatus(status: number, detail: string | undefined): ErrorType {
+  if (status === 429) {
+    return "rate_limited";
+  }
+  if (status === 401 || status === 402 || status === 403) {
+    return "auth";
+  }
+  if (status === 408 || status === 504) {
+    return "timeout";
+  }
+  if (status >= 500) {
+    return "server_error";
+  }
+  if (detail && NSFW_PATTERN.test(detail)) {
+    return "nsfw_filtered";
+  }
+  return status >= 400 ? "invalid_input" : "unknown";
+}
+
+/**
+ * Reads the system error code of a failed request, which fetch() puts on the error's cause
+ */
+function extractSystemErrorCode(error: unknown): string | undefined {
+  for (let current = error, depth = 0; current && typeof current === "object" && depth < 3; depth++) {
+    const code = (current as { code?: unknown }).code;
+    if (typeof code === "string") {
+      return code;
+    }
+    current = (current as { cause?: unknown }).cause;
+  }
+  return undefined;
+}
+
+function errorMessage(error: unknown): string {
+  if (error instanceof Error) {
+    return error.message;
+  }
+  if (typeof error === "string") {
+    return error;
+  }
+  if (error && typeof error === "object" && typeof (error as { message?: unknown }).message === "string") {
+    return (error as { message: string }).message;
+  }
+  return "";
+}
@@ -0,0 +1,99 @@
+import type { MediaDescriptor, OutputContentPart } from "./types.js";
+import { describeUrl } from "./media.js";
+import { isPlainObject } from "./objects.js";
+
+/**
+ * Numeric arrays with at least this many values are treated as embeddings
+ * Shorter ones, such as class probabilities or bounding boxes, are kept
+ */
+const MIN_EMBEDDING_DIMENSIONS = 32;
+
+const MEDIA_MODALITIES = ["image", "audio", "video"] as const;
+
+type MediaPart = Extract<OutputContentPart, { type: "image" | "audio" | "video" }>;
+
+/**
+ * Formats a model output as message content, based on what the output holds
+ *
+ * - An array of strings, the tokens of a language model, is joined into text
+ * - Image, audio and video URLs and MediaDescriptors become typed content parts
+ * - Embedding vectors become a summary of their dimensions and norm, at any depth
+ *
+ * Anything else is returned as is.
+ *
+ * @param output - The model output, with media already replaced by MediaDescriptors
+ * @returns The message content
+ */
+export function formatOutputContent(output: unknown): unknown {
+  if (isVector(output)) {
+    return [summarizeEmbedding(output)];
+  }
+  if (Array.isArray(output) && output.length > 0) {
+    if (output.every(isVector)) {
+      return output.map(summarizeEmbedding);
+    }
+    const mediaParts = output.map(toMediaPart);
+    if (mediaParts.every((part) => part !== undefined)) {
+      return mediaParts;
+    }
+    if (output.every((item) => typeof item === "string" && !/^https?:\/\//.test(item))) {
+      return output.join("");
+    }
+  }
+  const mediaPart = toMediaPart(output);
+  if (mediaPart) {
+    return [mediaPart];
+  }
+  return summarizeVectors(output);
+}
+
+/**
+ * Converts a media URL or MediaDescriptor to a typed content part
+ * Returns undefined for anything that isn't image, audio or video
+ */
+function toMediaPart(value: unknown): MediaPart | undefined {
+  let descriptor: MediaDescriptor | undefined;
+  if (typeof value === "string" && /^https?:\/\//.test(value)) {
+    descriptor = describeUrl(value);
+  } else if (isMediaDescriptor(value)) {
+    descriptor = value;
+  }
+  const modality = MEDIA_MODALITIES.find((type) => descriptor?.mime_type?.startsWith(`${type}/`));
+  if (!descriptor || !modality) {
+    return undefined;
+  }
+  const { type: _type, name: _name, ...details } = descriptor;
+  return { type: modality, ...details };
+}
+
+function isMediaDescriptor(value: unknown): value is MediaDescriptor {
+  return typeof value === "object" && value !== null && (value as { type?: unknown }).type === "media";
+}
+
+function isVector(value: unknown): value is number[] {
+  return Array.isArray(value) && value.length >= MIN_EMBEDDING_DIMENSIONS && value.every((item) => typeof item === "number");
+}
+
+function summarizeEmbedding(vector: number[]): OutputContentPart {
+  return {
+    type: "embedding",
+    dimensions: vector.length,
+    norm: Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)),
+  };
+}
+
+/**
+ * Replaces embedding vectors nested in arrays and plain objects with summaries
+ */
+function summarizeVectors(value: unknown): unknown {
+  if (isVector(value)) {
+    return summarizeEmbedding(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map(summarizeVectors);
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, summarizeVectors(item)]));
+  }
+  return value;
+}
@@ -0,0 +1,42 @@
+import { LruMap } from "./lru.js";
+
+/**
+ * Most generations remembered for linking feedback and metrics to them
+ */
+const MAX_GENERATIONS = 1000;
+
+/**
+ * What is remembered about a generation once its call settles
+ */
+export interface GenerationRecord {
+  /** Model identifier of the generation */
+  model: string;
+  /** Trace ID of the generation */
+  traceId?: string;
+  /** Distinct ID the generation was attributed to */
+  distinctId?: string;
+  /** Group identifiers of the generation */
+  groups?: Record<string, string>;
+  /** Whether the generation was captured in privacy mode */
+  privacyMode?: boolean;
+}
+
+/**
+ * Remembers recent generations by ID
+ *
+ * Lets feedback() and captureMetric() send their events with the trace ID,
+ * distinct ID and groups of the generation they refer to. Only generations
+ * made through this process are known; the least recently used are evicted
+ * first.
+ */
+export class GenerationRegistry {
+  private records = new LruMap<string, GenerationRecord>(MAX_GENERATIONS);
+
+  get(generationId: string): GenerationRecord | undefined {
+    return this.records.get(generationId);
+  }
+
+  set(generationId: string, record: GenerationRecord): void {
+    this.records.set(generationId, record);
+  }
+}
@@ -1,5 +1,13 @@
-import { test, expect, mock, beforeEach, describe } from "bun:test";
+import { test, expect, mock, beforeEach, afterEach, describe, jest } from "bun:test";
 import type { PostHog } from "posthog-node";
+import { createHash, createHmac } from "node:crypto";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { Readable } from "node:stream";
+import { mkdir, mkdtemp, readdir, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { SpanKind, SpanStatusCode } from "@opentelemetry/api";
+import { BasicTracerProvider, InMemorySpanExporter, SimpleSpanProcessor } from "@opentelemetry/sdk-trace-base";
 
 // Type for our mock capture calls
 interface MockCaptureCall {
@@ -10,15 +18,23 @@ interface MockCaptureCall {
 }
 
 // Mock Replicate SDK - must be before any imports that use it
-const mockRun = mock(() => Promise.resolve({ result: "test output" }));
-const mockStream = mock(async function* () {
+const mockRun = mock(
+  (_model: string, _options: object, _progress?: (prediction: object) => void): Promise<object> =>
+    Promise.resolve({ result: "test output" })
+);
+const mockStream = mock(async function* (_model: string, _options: object) {
   yield { event: "output", data: "Hello " };
   yield { event: "output", data: "World" };
   yield { event: "done", data: "" };
 });
-const mockPredictionsCreate = mock(() =>
+const mockPredictionsCreate = mock((): Promise<object> =>
   Promise.resolve({ id: "pred_123", status: "starting" })
 );
+const mockPredictionsGet = mock((): Promise<object> => Promise.resolve({}));
+const mockPredictionsCancel = mock((): Promise<object> => Promise.resolve({ id: "pred_123", status: "canceled" }));
+const mockDeploymentPredictionsCreate = mock((_owner: string, _name: string, _options: object): Promise<object> =>
+  Promise.resolve({ id: "pred_dep_123", status: "starting", model: "acme/image-model", deployment: "acme/prod-images" })
+);
 
 // Set up module mock before importing our code
 // Methods must be on prototype for super.method() to work
@@ -26,32 +42,87 @@ mock.module("replicate", () => ({
   default: class MockReplicate {
     predictions = {
       create: mockPredictionsCreate,
-      get: mock(() => Promise.resolve({})),
-      cancel: mock(() => Promise.resolve({})),
+      get: mockPredictionsGet,
+      cancel: mockPredictionsCancel,
       list: mock(() => Promise.resolve({})),
     };
     models = {};
-    deployments = {};
+    deployments = {
+      predictions: {
+        create: mockDeploymentPredictionsCreate,
+      },
+    };
     hardware = {};
     collections = {};
     webhooks = {};
 
     // Methods must be defined this way for super.method() calls to work
-    run(_model: string, _options: object) {
-      return mockRun();
+    run(model: string, options: object, progress?: (prediction: object) => void) {
+      return mockRun.call(this, model, options, progress);
     }
-    stream(_model: string, _options: object) {
-      return mockStream();
+    stream(model: string, options: object) {
+      return mockStream.call(this, model, options);
     }
   },
 }));
 
 // Now import our code after the mock is set up
-const { Replicate } = await import("./index");
+const {
+  Replicate,
+  createPostHogWebhookHandler,
+  verifyWebhookSignature,
+  InMemoryPredictionTrackingStore,
+  FilePredictionTrackingStore,
+  InMemoryQuotaStore,
+  InMemoryResponseCacheStore,
+  QuotaExceededError,
+  REDACTION_PATTERNS,
+  runInTrace,
+  withPostHogContext,
+  GenerationAggregator,
+  OpenTelemetrySink,
+  FanOutSink,
+  instrumentReplicate,
+} = await import("./index");
 const { captureGeneration, createTimer } = await import("./capture");
 const { POSTHOG_CONSTANTS } = await import("./types");
+const { calculateCost, extractUsage, resolvePricing, HARDWARE_PRICING } = await import("./pricing");
+const { summarizeMedia } = await import("./media");
+const { sampleEvent } = await import("./sampling");
+const { getRetryDelay } = await import("./retry");
+const { classifyError } = await import("./errors");
+const { canonicalJson } = await import("./cache");
+
+// The real SDK, imported under a query string so the module mock above doesn't replace it
+const { default: SdkReplicate } = (await import(`${require.resolve("replicate")}?sdk`)) as typeof import("replicate");
+
+// Declares a model schema the way consumers do, to check run()'s input and output types
+declare module "./types" {
+  interface ModelSchemas {
+    "acme/typed-model": { input: { prompt: string; steps?: number }; output: string[] };
+  }
+}
 
 type PredictionCreateOptions = import("./index").PredictionCreateOptions;
+type PredictionGetOptions = import("./index").PredictionGetOptions;
+type PredictionCancelOptions = import("./index").PredictionCancelOptions;
+type DeploymentPredictionCreateOptions = import("./index").DeploymentPredictionCreateOptions;
+
+// The pinned bun-types don't declare the timer controls the test runner provides
+const fakeTimers = jest as typeof jest & { advanceTimersByTime(milliseconds: number): void };
+
+// Signs a webhook payload the way Replicate does
+const WEBHOOK_SECRET = "whsec_" + Buffer.from("test-webhook-secret").toString("base64");
+function signWebhook(body: string, timestamp = Math.floor(Date.now() / 1000)) {
+  const id = "msg_123";
+  const key = Buffer.from(WEBHOOK_SECRET.slice("whsec_".length), "base64");
+  const signature = createHmac("sha256", key).update(`${id}.${timestamp}.${body}`).digest("base64");
+  return {
+    "webhook-id": id,
+    "webhook-timestamp": String(timestamp),
+    "webhook-signature": `v1,${signature}`,
+  };
+}
 
 // Mock PostHog client
 function createMockPostHog() {
@@ -70,6 +141,31 @@ function createMockPostHog() {
   };
 }
 
+// A real Replicate client whose requests are answered by a handler, recording each as "METHOD /path"
+function createSdkClient(respond: (method: string, path: string) => object | Response) {
+  const requests: string[] = [];
+  const client = new SdkReplicate({
+    auth: "r8_test",
+    useFileOutput: false,
+    fetch: async (url, init) => {
+      const method = init?.method ?? "GET";
+      const { pathname } = new URL(String(url));
+      requests.push(`${method} ${pathname}`);
+      const response = respond(method, pathname);
+      return response instanceof Response ? response : Response.json(response, { status: method === "POST" ? 201 : 200 });
+    },
+  });
+  return { client, requests };
+}
+
+// Answers the requests run() makes: the prediction starts, then the first poll finds it succeeded
+function respondWithPrediction(method: string) {
+  const prediction = { id: "pred_sdk", model: "stability-ai/sdxl", version: "v1", input: { prompt: "a cat" } };
+  return method === "POST"
+    ? { ...prediction, status: "starting" }
+    : { ...prediction, status: "succeeded", output: ["a cat"], metrics: { predict_time: 2 } };
+}
+
 describe("Replicate Wrapper", () => {
   let mockPostHog: ReturnType<typeof createMockPostHog>;
 
@@ -78,6 +174,9 @@ describe("Replicate Wrapper", () => {
     mockRun.mockClear();
     mockStream.mockClear();
     mockPredictionsCreate.mockClear();
+    mockPredictionsGet.mockClear();
+    mockPredictionsCancel.mockClear();
+    mockDeploymentPredictionsCreate.mockClear();
   });
 
   describe("constructor", () => {
@@ -270,6 +369,54 @@ describe("Replicate Wrapper", () => {
       expect(captureCall!.properties.$ai_stream).toBe(true);
       expect(captureCall!.properties.$ai_model).toBe("meta/llama-2-70b-chat");
     });
+
+    test("captures time to first token and throughput", async () => {
+      const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+      mockStream.mockImplementationOnce(async function* () {
+        await sleep(50);
+        yield { event: "output", data: "Hello" };
+        await sleep(20);
+        yield { event: "output", data: " there" };
+        await sleep(20);
+        yield { event: "output", data: "!" };
+        await sleep(30);
+        yield { event: "done", data: "" };
+      });
+
+      const replicate = new Replicate({
+        posthog: mockPostHog as unknown as PostHog,
+      });
+
+      for await (const _event of replicate.stream("meta/meta-llama-3-8b-instruct", { input: { prompt: "Hi" } })) {
+        // consume
+      }
+
+      const properties = mockPostHog.getCaptureCall(0)!.properties;
+      expect(properties.$ai_time_to_first_token as number).toBeGreaterThan(0.04);
+      expect(properties.$ai_stream_chunk_count).toBe(3);
+      expect(properties.$ai_tokens_per_second as number).toBeGreaterThan(20);
+      expect(properties.$ai_tokens_per_second as number).toBeLessThan(100);
+      expect(properties.$ai_stream_done_delay as number).toBeGreaterThan(0.02);
+      expect(properties.$ai_stream_stopped_early).toBe(false);
+    });
+
+    test("records when the consumer stops early", async () => {
+      const replicate = new Replicate({
+        posthog: mockPostHog as unknown as PostHog,
+      });
+
+      for await (const event of replicate.stream("meta/llama-2-70b-chat", { input: { prompt: "Hi" } })) {
+        if (event.event === "output") {
+          break;
+        }
+      }
+
+      expect(mockPostHog.capture).toHaveBeenCalledTimes(1);
+      const properties = mockPostHog.getCaptureCall(0)!.properties;
+      expect(properties.$ai_stream_stopped_early).toBe(true);
+      expect(properties.$ai_stream_chunk_count).toBe(1);
+      expect(properties.$ai_is_error).toBe(false);
+    });
   });
 
   describe("predictions.create()", () => {
@@ -295,53 +442,2848 @@ describe("Replicate Wrapper", () => {
       expect(captureCall!.properties.$ai_prediction_id).toBe("pred_123");
     });
   });
-});
 
-describe("captureGeneration", () => {
-  test("captures basic generation event", () => {
-    const mockPostHog = createMockPostHog();
+  describe("deployments.predictions.create()", () => {
+    test("creates deployment prediction and captures event", async () => {
+      const replicate = new Replicate({
+        posthog: mockPostHog as unknown as PostHog,
+      });
 
-    captureGeneration(mockPostHog as unknown as PostHog, {
-      model: "test/model",
-      latency: 1.5,
-      httpStatus: 200,
-      isError: false,
-      input: { prompt: "test" },
-      output: "response",
-      distinctId: "user_123",
+      const createWithTracking = replicate.deployments.predictions.create as (
+        owner: string,
+        name: string,
+        options: DeploymentPredictionCreateOptions
+      ) => Promise<unknown>;
+      const prediction = await createWithTracking("acme", "prod-images", {
+        input: { prompt: "A beautiful sunset" },
+        posthogDistinctId: "user_789",
+      });
+
+      expect(prediction).toMatchObject({ id: "pred_dep_123" });
+      expect(mockDeploymentPredictionsCreate).toHaveBeenCalledTimes(1);
+      // PostHog options are stripped before calling Replicate
+      expect(mockDeploymentPredictionsCreate.mock.calls[0]).toEqual([
+        "acme",
+        "prod-images",
+        { input: { prompt: "A beautiful sunset" } },
+      ]);
+
+      const captureCall = mockPostHog.getCaptureCall(0);
+      expect(captureCall!.distinctId).toBe("user_789");
+      expect(captureCall!.properties.$ai_deployment).toBe("acme/prod-images");
+      expect(captureCall!.properties.$ai_model).toBe("acme/image-model");
+      expect(captureCall!.properties.$ai_async_prediction).toBe(true);
+      expect(captureCall!.properties.$ai_prediction_id).toBe("pred_dep_123");
     });
 
-    expect(mockPostHog.capture).toHaveBeenCalledTimes(1);
+    test("links tracking options to predictions.get()", async () => {
+      mockPredictionsGet.mockImplementationOnce(() =>
+        Promise.resolve({
+          id: "pred_dep_123",
+          status: "succeeded",
+          model: "acme/image-model",
+          deployment: "acme/prod-images",
+          output: "done",
+        })
+      );
 
-    const call = mockPostHog.getCaptureCall(0);
-    expect(call).toBeDefined();
-    expect(call!.event).toBe("$ai_generation");
-    expect(call!.distinctId).toBe("user_123");
-    expect(call!.properties.$ai_provider).toBe("replicate");
-    expect(call!.properties.$ai_model).toBe("test/model");
-    expect(call!.properties.$ai_latency).toBe(1.5);
-    expect(call!.properties.$ai_http_status).toBe(200);
-    expect(call!.properties.$ai_base_url).toBe("https://api.replicate.com");
-    expect(call!.properties.$ai_is_error).toBe(false);
+      const replicate = new Replicate({
+        posthog: mockPostHog as unknown as PostHog,
+      });
+
+      const createWithTracking = replicate.deployments.predictions.create as (
+        owner: string,
+        name: string,
+        options: DeploymentPredictionCreateOptions
+      ) => Promise<unknown>;
+      await createWithTracking("acme", "prod-images", {
+        input: { prompt: "A sunset" },
+        posthogDistinctId: "user_789",
+        posthogTraceId: "trace_dep",
+      });
+      await replicate.predictions.get("pred_dep_123");
+
+      const getCall = mockPostHog.getCaptureCall(1);
+      expect(getCall!.distinctId).toBe("user_789");
+      expect(getCall!.properties.$ai_trace_id).toBe("trace_dep");
+      expect(getCall!.properties.$ai_deployment).toBe("acme/prod-images");
+    });
+
+    test("get() reports the deployment recorded by create() when the prediction doesn't name it", async () => {
+      mockPredictionsGet.mockImplementationOnce(() =>
+        Promise.resolve({ id: "pred_dep_123", status: "succeeded", model: "acme/image-model", output: "done" })
+      );
+      const replicate = new Replicate({
+        posthog: mockPostHog as unknown as PostHog,
+      });
+
+      const createWithTracking = replicate.deployments.predictions.create as (
+        owner: string,
+        name: string,
+        options: DeploymentPredictionCreateOptions
+      ) => Promise<unknown>;
+      await createWithTracking("acme", "prod-images", { input: {}, posthogDistinctId: "user_789" });
+      await replicate.predictions.get("pred_dep_123");
+
+      expect(mockPostHog.getCaptureCall(1)!.properties.$ai_deployment).toBe("acme/prod-images");
+    });
+
+    test("captures error events with the deployment as model", async () => {
+      mockDeploymentPredictionsCreate.mockImplementationOnce(() => Promise.reject(new Error("Not found")));
+
+      const replicate = new Replicate({
+        posthog: mockPostHog as unknown as PostHog,
+      });
+
+      await expect(replicate.deployments.predictions.create("acme", "missing", { input: {} })).rejects.toThrow("Not found");
+
+      const captureCall = mockPostHog.getCaptureCall(0);
+      expect(captureCall!.properties.$ai_is_error).toBe(true);
+      expect(captureCall!.properties.$ai_model).toBe("acme/missing");
+      expect(captureCall!.properties.$ai_deployment).toBe("acme/missing");
+    });
   });
 
-  test("excludes input/output in privacy mode", () => {
-    const mockPostHog = createMockPostHog();
+  describe("completion capture mode", () => {
+    const completedPrediction = {
+      id: "pred_123",
+      model: "stability-ai/sdxl",
+      status: "succeeded",
+      input: { prompt: "A sunset" },
+      output: ["https://replicate.delivery/out.png"],
+      created_at: "2024-01-01T00:00:00.000Z",
+      started_at: "2024-01-01T00:00:02.500Z",
+      completed_at: "2024-01-01T00:00:06.500Z",
+      metrics: { predict_time: 4 },
+    };
 
-    captureGeneration(mockPostHog as unknown as PostHog, {
-      model: "test/model",
-      latency: 1.0,
-      httpStatus: 200,
-      isError: false,
-      input: { secret: "data" },
-      output: "private response",
-      privacyMode: true,
+    test("collapses create and polls into a single generation event", async () => {
+      mockPredictionsGet
+        .mockImplementationOnce(() => Promise.resolve({ id: "pred_123", status: "processing" }))
+        .mockImplementationOnce(() => Promise.resolve(completedPrediction));
+
+      const replicate = new Replicate({
+        posthog: mockPostHog as unknown as PostHog,
+        asyncPredictionCapture: "completion",
+      });
+
+      const createWithTracking = replicate.predictions.create as (options: PredictionCreateOptions) => Promise<unknown>;
+      await createWithTracking({
+        model: "stability-ai/sdxl",
+        input: { prompt: "A sunset" },
+        posthogDistinctId: "user_789",
+      });
+      await replicate.predictions.get("pred_123");
+      expect(mockPostHog.capture).toHaveBeenCalledTimes(0);
+
+      await replicate.predictions.get("pred_123");
+      expect(mockPostHog.capture).toHaveBeenCalledTimes(1);
+
+      const captureCall = mockPostHog.getCaptureCall(0);
+      expect(captureCall!.event).toBe("$ai_generation");
+      expect(captureCall!.distinctId).toBe("user_789");
+      expect(captureCall!.properties.$ai_prediction_status).toBe("succeeded");
+      expect(captureCall!.properties.$ai_queue_time).toBe(2.5);
+      expect(captureCall!.properties.$ai_predict_time).toBe(4);
+      expect(captureCall!.properties.$ai_output_choices).toEqual([
+        { role: "assistant", content: [{ type: "image", url: "https://replicate.delivery/out.png", mime_type: "image/png" }] },
+      ]);
+      expect(typeof captureCall!.properties.$ai_latency).toBe("number");
     });
 
-    const call = mockPostHog.getCaptureCall(0);
-    expect(call).toBeDefined();
-    expect(call!.properties.$ai_input).toBeUndefined();
-    expect(call!.properties.$ai_output_choices).toBeUndefined();
+    test("sends the completion event once when a finished prediction is polled again", async () => {
+      mockPredictionsGet
+        .mockImplementationOnce(() => Promise.resolve(completedPrediction))
+        .mockImplementationOnce(() => Promise.resolve(completedPrediction));
+
+      const replicate = new Replicate({
+        posthog: mockPostHog as unknown as PostHog,
+        asyncPredictionCapture: "completion",
+      });
+
+      const createWithTracking = replicate.predictions.create as (options: PredictionCreateOptions) => Promise<unknown>;
+      await createWithTracking({
+        model: "stability-ai/sdxl",
+        input: { prompt: "A sunset" },
+        posthogDistinctId: "user_789",
+      });
+      await replicate.predictions.get("pred_123");
+      await replicate.predictions.get("pred_123");
+
+      expect(mockPostHog.capture).toHaveBeenCalledTimes(1);
+      expect(mockPostHog.getCaptureCall(0)!.distinctId).toBe("user_789");
+    });
+
+    test("sends intermediate polls as spans when enabled", async () => {
+      mockPredictionsGet
+        .mockImplementationOnce(() => Promise.resolve({ id: "pred_123", status: "processing" }))
+        .mockImplementationOnce(() => Promise.resolve(completedPrediction));
+
+      const replicate = new Replicate({
+        posthog: mockPostHog as unknown as PostHog,
+        asyncPredictionCapture: "completion",
+        capturePollSpans: true,
+      });
+
+      const createWithTracking = replicate.predictions.create as (options: PredictionCreateOptions) => Promise<unknown>;
+      await createWithTracking({
+        model: "stability-ai/sdxl",
+        input: { prompt: "A sunset" },
+        posthogTraceId: "trace_poll",
+      });
+      await replicate.predictions.get("pred_123");
+      await replicate.predictions.get("pred_123");
+
+      expect(mockPostHog.capture).toHaveBeenCalledTimes(2);
+      const spanCall = mockPostHog.getCaptureCall(0);
+      expect(spanCall!.event).toBe("$ai_span");
+      expect(spanCall!.properties.$ai_span_name).toBe("prediction_poll");
+      expect(spanCall!.properties.$ai_trace_id).toBe("trace_poll");
+      expect(spanCall!.properties.$ai_prediction_status).toBe("processing");
+      expect(mockPostHog.getCaptureCall(1)!.event).toBe("$ai_generation");
+    });
+
+    test("captures predictions that finish during create()", async () => {
+      mockPredictionsCreate.mockImplementationOnce(() => Promise.resolve(completedPrediction));
+
+      const replicate = new Replicate({
+        posthog: mockPostHog as unknown as PostHog,
+        asyncPredictionCapture: "completion",
+      });
+
+      const createWithTracking = replicate.predictions.create as (options: PredictionCreateOptions) => Promise<unknown>;
+      await createWithTracking({
+        model: "stability-ai/sdxl",
+        input: { prompt: "A sunset" },
+        wait: true,
+      });
+
+      expect(mockPostHog.capture).toHaveBeenCalledTimes(1);
+      expect(mockPostHog.getCaptureCall(0)!.properties.$ai_prediction_completed).toBe(true);
+
+      mockPredictionsGet.mockImplementationOnce(() => Promise.resolve(completedPrediction));
+      await replicate.predictions.get("pred_123");
+      expect(mockPostHog.capture).toHaveBeenCalledTimes(1);
+    });
+
+    test("still captures create() errors", async () => {
+      mockPredictionsCreate.mockImplementationOnce(() => Promise.reject(new Error("Invalid input")));
+
+      const replicate = new Replicate({
+        posthog: mockPostHog as unknown as PostHog,
+        asyncPredictionCapture: "completion",
+      });
+
+      await expect(replicate.predictions.create({ model: "stability-ai/sdxl", input: {} })).rejects.toThrow("Invalid input");
+
+      expect(mockPostHog.capture).toHaveBeenCalledTimes(1);
+      expect(mockPostHog.getCaptureCall(0)!.properties.$ai_is_error).toBe(true);
+    });
+  });
+
+  describe("webhook handler", () => {
+    const completedPayload = JSON.stringify({
+      id: "pred_123",
+      model: "stability-ai/sdxl",
+      status: "succeeded",
+      input: { prompt: "A sunset" },
+      output: ["https://replicate.delivery/out.png"],
+      created_at: "2024-01-01T00:00:00.000Z",
+      started_at: "2024-01-01T00:00:01.000Z",
+      completed_at: "2024-01-01T00:00:05.000Z",
+      metrics: { predict_time: 4 },
+    });
+
+    test("captures completion events from signed Fetch requests", async () => {
+      const replicate = new Replicate({
+        posthog: mockPostHog as unknown as PostHog,
+      });
+      const createWithTracking = replicate.predictions.create as (options: PredictionCreateOptions) => Promise<unknown>;
+      await createWithTracking({
+        model: "stability-ai/sdxl",
+        input: { prompt: "A sunset" },
+        webhook: "https://example.com/webhooks/replicate",
+        posthogDistinctId: "user_789",
+        posthogTraceId: "trace_webhook",
+      });
+
+      const handler = createPostHogWebhookHandler({ replicate, secret: WEBHOOK_SECRET });
+      const response = await handler(
+        new Request("https://example.com/webhooks/replicate", {
+          method: "POST",
+          headers: signWebhook(completedPayload),
+          body: completedPayload,
+        })
+      );
+
+      expect(response.status).toBe(200);
+      expect(mockPostHog.capture).toHaveBeenCalledTimes(2);
+      const captureCall = mockPostHog.getCaptureCall(1);
+      expect(captureCall!.event).toBe("$ai_generation");
+      expect(captureCall!.distinctId).toBe("user_789");
+      expect(captureCall!.properties.$ai_trace_id).toBe("trace_webhook");
+      expect(captureCall!.properties.$ai_webhook).toBe(true);
+      expect(captureCall!.properties.$ai_prediction_status).toBe("succeeded");
+      expect(captureCall!.properties.$ai_output_choices).toBeDefined();
+    });
+
+    test("captures completion events from Node http requests", async () => {
+      const replicate = new Replicate({
+        posthog: mockPostHog as unknown as PostHog,
+      });
+      const handler = createPostHogWebhookHandler({ replicate, secret: WEBHOOK_SECRET });
+
+      const req = Object.assign(Readable.from([Buffer.from(completedPayload)]), {
+        headers: signWebhook(completedPayload),
+      }) as unknown as IncomingMessage;
+      const res = { statusCode: 0, end: mock(() => {}) };
+
+      await handler(req, res as unknown as ServerResponse);
+
+      expect(res.statusCode).toBe(200);
+      expect(res.end).toHaveBeenCalledTimes(1);
+      expect(mockPostHog.capture).toHaveBeenCalledTimes(1);
+      // Without a stored create time, latency comes from Replicate's timestamps
+      expect(mockPostHog.getCaptureCall(0)!.properties.$ai_latency).toBe(5);
+    });
+
+    test("captures a webhook delivered more than once only once", async () => {
+      const replicate = new Replicate({
+        posthog: mockPostHog as unknown as PostHog,
+      });
+      const handler = createPostHogWebhookHandler({ replicate, secret: WEBHOOK_SECRET });
+      const deliver = () =>
+        handler(
+          new Request("https://example.com/webhooks/replicate", {
+            method: "POST",
+            headers: signWebhook(completedPayload),
+            body: completedPayload,
+          })
+        );
+
+      const responses = await Promise.all([deliver(), deliver()]);
+      const retried = await deliver();
+
+      expect(responses.map((response) => response.status)).toEqual([200, 200]);
+      expect(retried.status).toBe(200);
+      expect(mockPostHog.capture).toHaveBeenCalledTimes(1);
+    });
+
+    test("responds with 500 when a Node request fails, and captures the redelivery", async () => {
+      const captureWebhookPrediction = mock((_prediction: object) => Promise.resolve(true));
+      captureWebhookPrediction.mockImplementationOnce(() => Promise.reject(new Error("store unavailable")));
+      const handler = createPostHogWebhookHandler({ replicate: { captureWebhookPrediction }, secret: WEBHOOK_SECRET });
+      const nodeRequest = (body: Readable) =>
+        Object.assign(body, { headers: signWebhook(completedPayload) }) as unknown as IncomingMessage;
+      const res = { statusCode: 0, end: mock(() => {}) };
+
+      const unreadable = new Readable({
+        read() {
+          this.destroy(new Error("connection reset"));
+        },
+      });
+      await handler(nodeRequest(unreadable), res as unknown as ServerResponse);
+      expect(res.statusCode).toBe(500);
+      await handler(nodeRequest(Readable.from([Buffer.from(completedPayload)])), res as unknown as ServerResponse);
+      expect(res.statusCode).toBe(500);
+      await handler(nodeRequest(Readable.from([Buffer.from(completedPayload)])), res as unknown as ServerResponse);
+      expect(res.statusCode).toBe(200);
+
+      expect(res.end).toHaveBeenCalledTimes(3);
+      expect(captureWebhookPrediction).toHaveBeenCalledTimes(2);
+    });
+
+    test("rejects invalid signatures", async () => {
+      const replicate = new Replicate({
+        posthog: mockPostHog as unknown as PostHog,
+      });
+      const handler = createPostHogWebhookHandler({ replicate, secret: WEBHOOK_SECRET });
+
+      const response = await handler(
+        new Request("https://example.com/webhooks/replicate", {
+          method: "POST",
+          headers: signWebhook("{}"),
+          body: completedPayload,
+        })
+      );
+
+      expect(response.status).toBe(401);
+      expect(mockPostHog.capture).toHaveBeenCalledTimes(0);
+    });
+
+    test("acknowledges non-terminal webhooks without capturing", async () => {
+      const replicate = new Replicate({
+        posthog: mockPostHog as unknown as PostHog,
+      });
+      const handler = createPostHogWebhookHandler({ replicate, secret: WEBHOOK_SECRET });
+      const payload = JSON.stringify({ id: "pred_123", status: "processing" });
+
+      const response = await handler(
+        new Request("https://example.com/webhooks/replicate", {
+          method: "POST",
+          headers: signWebhook(payload),
+          body: payload,
+        })
+      );
+
+      expect(response.status).toBe(200);
+      expect(mockPostHog.capture).toHaveBeenCalledTimes(0);
+    });
+
+    test("rejects stale timestamps", () => {
+      const staleHeaders = signWebhook(completedPayload, Math.floor(Date.now() / 1000) - 3600);
+      expect(
+        verifyWebhookSignature(
+          {
+            id: staleHeaders["webhook-id"],
+            timestamp: staleHeaders["webhook-timestamp"],
+            signature: staleHeaders["webhook-signature"],
+            body: completedPayload,
+          },
+          WEBHOOK_SECRET
+        )
+      ).toBe(false);
+    });
+  });
+
+  describe("prediction tracking store", () => {
+    test("links create() and get() across clients sharing a file store", async () => {
+      const directory = await mkdtemp(join(tmpdir(), "posthog-replicate-"));
+      try {
+        mockPredictionsGet.mockImplementationOnce(() =>
+          Promise.resolve({ id: "pred_123", status: "succeeded", model: "stability-ai/sdxl", output: "done" })
+        );
+
+        const apiServer = new Replicate({
+          posthog: mockPostHog as unknown as PostHog,
+          predictionTrackingStore: new FilePredictionTrackingStore({ directory }),
+        });
+        const worker = new Replicate({
+          posthog: mockPostHog as unknown as PostHog,
+          predictionTrackingStore: new FilePredictionTrackingStore({ directory }),
+        });
+
+        const createWithTracking = apiServer.predictions.create as (options: PredictionCreateOptions) => Promise<unknown>;
+        await createWithTracking({
+          model: "stability-ai/sdxl",
+          input: { prompt: "A sunset" },
+          posthogDistinctId: "user_789",
+          posthogGroups: { company: "acme_corp" },
+        });
+        await worker.predictions.get("pred_123");
+
+        const getCall = mockPostHog.getCaptureCall(1);
+        expect(getCall!.distinctId).toBe("user_789");
+        expect(getCall!.groups).toEqual({ company: "acme_corp" });
+        // The entry is released once the prediction completes
+        expect(await readdir(directory)).toEqual([]);
+      } finally {
+        await rm(directory, { recursive: true, force: true });
+      }
+    });
+
+    test("uses a custom store with the configured TTL", async () => {
+      const store = {
+        get: mock(async (_id: string) => undefined),
+        set: mock(async (_id: string, _state: object, _ttl: number) => {}),
+        delete: mock(async (_id: string) => {}),
+      };
+
+      const replicate = new Replicate({
+        posthog: mockPostHog as unknown as PostHog,
+        predictionTrackingStore: store,
+        predictionTrackingTtl: 60,
+      });
+
+      const createWithTracking = replicate.predictions.create as (options: PredictionCreateOptions) => Promise<unknown>;
+      await createWithTracking({
+        model: "stability-ai/sdxl",
+        input: {},
+        posthogDistinctId: "user_789",
+      });
+
+      expect(store.set).toHaveBeenCalledTimes(1);
+      expect(store.set.mock.calls[0]![0]).toBe("pred_123");
+      expect(store.set.mock.calls[0]![2]).toBe(60);
+    });
+
+    test("a failing store leaves predictions untracked instead of failing calls", async () => {
+      const unavailable = () => Promise.reject(new Error("store unavailable"));
+      const replicate = new Replicate({
+        posthog: mockPostHog as unknown as PostHog,
+        predictionTrackingStore: { get: unavailable, set: unavailable, delete: unavailable },
+      });
+      mockPredictionsGet.mockImplementationOnce(() =>
+        Promise.resolve({ id: "pred_123", status: "succeeded", model: "stability-ai/sdxl", output: "done" })
+      );
+
+      const createWithTracking = replicate.predictions.create as (options: PredictionCreateOptions) => Promise<unknown>;
+      const created = await createWithTracking({ model: "stability-ai/sdxl", input: {}, posthogDistinctId: "user_789" });
+      await replicate.predictions.get("pred_123");
+      await replicate.predictions.cancel("pred_123");
+
+      expect(created).toEqual({ id: "pred_123", status: "starting" });
+      expect(mockPostHog.capture).toHaveBeenCalledTimes(3);
+      expect(mockPostHog.getCaptureCall(0)!.distinctId).toBe("user_789");
+      expect(mockPostHog.getCaptureCall(1)!.distinctId).toBe("anonymous");
+      expect(mockPostHog.getCaptureCall(2)!.properties.$ai_prediction_cancel).toBe(true);
+    });
+  });
+
+  describe("redaction", () => {
+    test("applies client-wide allowlist and masks before capturing", async () => {
+      const replicate = new Replicate({
+        posthog: mockPostHog as unknown as PostHog,
+        redact: {
+          allowFields: ["prompt"],
+          mask: [REDACTION_PATTERNS.email, REDACTION_PATTERNS.apiKey],
+        },
+      });
+
+      const input = {
+        prompt: "Email jane@example.com using key r8_abcdefghijklmnopqrstuvwxyz",
+        image: "https://example.com/private.jpg",
+      };
+      await replicate.run("openai/clip", { input });
+
+      const captureCall = mockPostHog.getCaptureCall(0);
+      expect(captureCall!.properties.$ai_input).toEqual([
+        { role: "user", content: { prompt: "Email [REDACTED] using key [REDACTED]" } },
+      ]);
+      // The input sent to Replicate is untouched
+      expect(mockRun.mock.calls[0]![1]).toEqual({ input });
+    });
+
+    test("per-call options override client-wide rules", async () => {
+      const replicate = new Replicate({
+        posthog: mockPostHog as unknown as PostHog,
+        redact: { allowFields: ["prompt"], maxStringLength: 5 },
+      });
+
+      await replicate.run("openai/clip", {
+        input: { prompt: "A long prompt", image: "https://example.com/a.jpg" },
+        posthogRedact: { allowFields: ["prompt", "image"], omitFields: ["image"] },
+      });
+
+      const captureCall = mockPostHog.getCaptureCall(0);
+      expect(captureCall!.properties.$ai_input).toEqual([
+        { role: "user", content: { prompt: "A lon...[truncated 8 chars]" } },
+      ]);
+    });
+
+    test("redacts outputs with custom hooks and nested omitted fields", async () => {
+      mockRun.mockImplementationOnce(() =>
+        Promise.resolve({ text: "Call me at jane@example.com", debug: { token: "secret" } })
+      );
+
+      const replicate = new Replicate({
+        posthog: mockPostHog as unknown as PostHog,
+        redact: {
+          omitFields: ["token"],
+          mask: [{ pattern: REDACTION_PATTERNS.email, replacement: "<email>" }],
+          redactOutput: (output) => ({ ...(output as object), reviewed: true }),
+        },
+      });
+
+      await replicate.run("openai/clip", { input: {} });
+
+      const captureCall = mockPostHog.getCaptureCall(0);
+      expect(captureCall!.properties.$ai_output_choices).toEqual([
+        { role: "assistant", content: { text: "Call me at <email>", debug: {}, reviewed: true } },
+      ]);
+    });
+
+    test("redacts streamed output", async () => {
+      const replicate = new Replicate({
+        posthog: mockPostHog as unknown as PostHog,
+        redact: { mask: [/World/] },
+      });
+
+      for await (const _event of replicate.stream("meta/llama-2-70b-chat", { input: { prompt: "Hi" } })) {
+        // consume
+      }
+
+      const captureCall = mockPostHog.getCaptureCall(0);
+      expect(captureCall!.properties.$ai_output_choices).toEqual([{ role: "assistant", content: "Hello [REDACTED]" }]);
+    });
+  });
+
+  describe("media handling", () => {
+    test("replaces inline binary inputs and file outputs with descriptors", async () => {
+      const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00]);
+      const fileOutput = Object.assign(new ReadableStream(), {
+        url: () => new URL("https://replicate.delivery/abc/output.webp"),
+        blob: () => Promise.resolve(new Blob()),
+      });
+      mockRun.mockImplementationOnce(() => Promise.resolve([fileOutput]));
+
+      const replicate = new Replicate({
+        posthog: mockPostHog as unknown as PostHog,
+      });
+
+      await replicate.run("stability-ai/sdxl", {
+        input: { prompt: "A sunset", image: png },
+      });
+
+      const captureCall = mockPostHog.getCaptureCall(0);
+      expect(captureCall!.properties.$ai_input).toEqual([
+        {
+          role: "user",
+          content: {
+            prompt: "A sunset",
+            image: {
+              type: "media",
+              mime_type: "image/png",
+              size: 9,
+              sha256: createHash("sha256").update(png).digest("hex"),
+            },
+          },
+        },
+      ]);
+      expect(captureCall!.properties.$ai_output_choices).toEqual([
+        {
+          role: "assistant",
+          content: [{ type: "image", url: "https://replicate.delivery/abc/output.webp", mime_type: "image/webp" }],
+        },
+      ]);
+    });
+  });
+
+  describe("default tracking options and withContext()", () => {
+    test("merges client-wide defaults under per-call options", async () => {
+      const replicate = new Replicate({
+        posthog: mockPostHog as unknown as PostHog,
+        trackingDefaults: {
+          posthogDistinctId: "service_account",
+          posthogProperties: { service: "image-api", tier: "free" },
+          posthogGroups: { company: "acme_corp" },
+        },
+      });
+
+      await replicate.run("openai/clip", {
+        input: {},
+        posthogProperties: { tier: "pro" },
+      });
+
+      const captureCall = mockPostHog.getCaptureCall(0);
+      expect(captureCall!.distinctId).toBe("service_account");
+      expect(captureCall!.properties.service).toBe("image-api");
+      expect(captureCall!.properties.tier).toBe("pro");
+      expect(captureCall!.groups).toEqual({ company: "acme_corp" });
+    });
+
+    test("scoped clients apply their context without changing the parent", async () => {
+      const replicate = new Replicate({
+        posthog: mockPostHog as unknown as PostHog,
+        trackingDefaults: { posthogProperties: { service: "image-api" } },
+      });
+      const scoped = replicate.withContext({ distinctId: "user_123", traceId: "trace_req", properties: { route: "/generate" } });
+
+      await scoped.run("openai/clip", { input: {} });
+      await replicate.run("openai/clip", { input: {} });
+
+      const scopedCall = mockPostHog.getCaptureCall(0);
+      expect(scopedCall!.distinctId).toBe("user_123");
+      expect(scopedCall!.properties.$ai_trace_id).toBe("trace_req");
+      expect(scopedCall!.properties.service).toBe("image-api");
+      expect(scopedCall!.properties.route).toBe("/generate");
+
+      const parentCall = mockPostHog.getCaptureCall(1);
+      expect(parentCall!.distinctId).toBe("anonymous");
+      expect(parentCall!.properties.route).toBeUndefined();
+    });
+
+    test("scoped clients track predictions and nest contexts", async () => {
+      const replicate = new Replicate({
+        posthog: mockPostHog as unknown as PostHog,
+      });
+      const scoped = replicate
+        .withContext({ distinctId: "user_123", groups: { company: "acme_corp" } })
+        .withContext({ traceId: "trace_nested" });
+
+      const createWithTracking = scoped.predictions.create as (options: PredictionCreateOptions) => Promise<unknown>;
+      await createWithTracking({ model: "stability-ai/sdxl", input: {}, posthogDistinctId: "user_override" });
+
+      const captureCall = mockPostHog.getCaptureCall(0);
+      expect(captureCall!.distinctId).toBe("user_override");
+      expect(captureCall!.properties.$ai_trace_id).toBe("trace_nested");
+      expect(captureCall!.groups).toEqual({ company: "acme_corp" });
+      expect(replicate.predictions.create).not.toBe(scoped.predictions.create);
+    });
+
+    test("options passed to get() don't discard the stored ones", async () => {
+      mockPredictionsGet.mockImplementationOnce(() => Promise.resolve({ id: "pred_123", status: "processing" }));
+
+      const replicate = new Replicate({
+        posthog: mockPostHog as unknown as PostHog,
+      });
+
+      const createWithTracking = replicate.predictions.create as (options: PredictionCreateOptions) => Promise<unknown>;
+      await createWithTracking({ model: "stability-ai/sdxl", input: {}, posthogDistinctId: "user_789" });
+      const getWithTracking = replicate.predictions.get as (id: string, options?: PredictionGetOptions) => Promise<unknown>;
+      await getWithTracking("pred_123", { signal: new AbortController().signal, posthogTraceId: "trace_get" });
+
+      const getCall = mockPostHog.getCaptureCall(1);
+      expect(getCall!.distinctId).toBe("user_789");
+      expect(getCall!.properties.$ai_trace_id).toBe("trace_get");
+    });
+  });
+
+  describe("context propagation", () => {
+    test("nested calls inherit the trace from runInTrace()", async () => {
+      const replicate = new Replicate({
+        posthog: mockPostHog as unknown as PostHog,
+      });
+
+      async function pipeline() {
+        await replicate.run("salesforce/blip", { input: {} });
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        const createWithTracking = replicate.predictions.create as (options: PredictionCreateOptions) => Promise<unknown>;
+        await createWithTracking({ model: "stability-ai/sdxl", input: {} });
+      }
+
+      await runInTrace("trace_pipeline", pipeline);
+
+      expect(mockPostHog.getCaptureCall(0)!.properties.$ai_trace_id).toBe("trace_pipeline");
+      expect(mockPostHog.getCaptureCall(1)!.properties.$ai_trace_id).toBe("trace_pipeline");
+    });
+
+    test("merges nested contexts and lets explicit options win", async () => {
+      const replicate = new Replicate({
+        posthog: mockPostHog as unknown as PostHog,
+        trackingDefaults: { posthogDistinctId: "service_account" },
+      });
+
+      await withPostHogContext({ distinctId: "user_123", properties: { step: "outer", feature: "chat" } }, () =>
+        withPostHogContext({ parentId: "span_1", properties: { step: "inner" } }, async () => {
+          await replicate.run("openai/clip", { input: {} });
+          await replicate.run("openai/clip", { input: {}, posthogDistinctId: "user_explicit" });
+        })
+      );
+
+      const first = mockPostHog.getCaptureCall(0);
+      expect(first!.distinctId).toBe("user_123");
+      expect(first!.properties.$ai_parent_id).toBe("span_1");
+      expect(first!.properties.step).toBe("inner");
+      expect(first!.properties.feature).toBe("chat");
+      expect(mockPostHog.getCaptureCall(1)!.distinctId).toBe("user_explicit");
+    });
+
+    test("keeps concurrent contexts isolated", async () => {
+      const replicate = new Replicate({
+        posthog: mockPostHog as unknown as PostHog,
+      });
+
+      await Promise.all(
+        ["trace_a", "trace_b"].map((traceId) =>
+          runInTrace(traceId, async () => {
+            await new Promise((resolve) => setTimeout(resolve, traceId === "trace_a" ? 10 : 1));
+            await replicate.run("openai/clip", { input: {}, posthogProperties: { expected: traceId } });
+          })
+        )
+      );
+
+      for (const index of [0, 1]) {
+        const properties = mockPostHog.getCaptureCall(index)!.properties;
+        expect(properties.$ai_trace_id).toBe(properties.expected as string);
+      }
+    });
+
+    test("calls outside a context are unaffected", async () => {
+      const replicate = new Replicate({
+        posthog: mockPostHog as unknown as PostHog,
+      });
+
+      await runInTrace("trace_inside", async () => {});
+      await replicate.run("openai/clip", { input: {} });
+
+      expect(mockPostHog.getCaptureCall(0)!.properties.$ai_trace_id).toBeUndefined();
+    });
+  });
+
+  describe("traces and spans", () => {
+    test("captures a trace with child spans and links generations to them", async () => {
+      const replicate = new Replicate({
+        posthog: mockPostHog as unknown as PostHog,
+      });
+
+      const result = await replicate.trace("illustrate", async (trace) => {
+        trace.setInput({ topic: "cats" });
+        const caption = await trace.span("caption", async (span) => {
+          span.setProperties({ step: 1 });
+          return replicate.run("salesforce/blip", { input: {} });
+        });
+        trace.setOutput(caption);
+        return caption;
+      }, { distinctId: "user_123", traceId: "trace_illustrate" });
+
+      expect(result).toEqual({ result: "test output" });
+      expect(mockPostHog.capture).toHaveBeenCalledTimes(3);
+
+      const generation = mockPostHog.getCaptureCall(0)!;
+      const span = mockPostHog.getCaptureCall(1)!;
+      const trace = mockPostHog.getCaptureCall(2)!;
+
+      expect(trace.event).toBe("$ai_trace");
+      expect(trace.distinctId).toBe("user_123");
+      expect(trace.properties.$ai_trace_id).toBe("trace_illustrate");
+      expect(trace.properties.$ai_span_name).toBe("illustrate");
+      expect(trace.properties.$ai_input_state).toEqual({ topic: "cats" });
+      expect(trace.properties.$ai_output_state).toEqual({ result: "test output" });
+      expect(trace.properties.$ai_parent_id).toBeUndefined();
+
+      expect(span.event).toBe("$ai_span");
+      expect(span.distinctId).toBe("user_123");
+      expect(span.properties.$ai_span_name).toBe("caption");
+      expect(span.properties.$ai_trace_id).toBe("trace_illustrate");
+      expect(span.properties.$ai_parent_id).toBe("trace_illustrate");
+      expect(span.properties.step).toBe(1);
+
+      expect(generation.event).toBe("$ai_generation");
+      expect(generation.properties.$ai_trace_id).toBe("trace_illustrate");
+      expect(generation.properties.$ai_parent_id).toBe(span.properties.$ai_span_id);
+    });
+
+    test("generates a trace ID when none is given", async () => {
+      const replicate = new Replicate({
+        posthog: mockPostHog as unknown as PostHog,
+      });
+
+      await replicate.trace("pipeline", () => replicate.run("openai/clip", { input: {} }));
+
+      const traceId = mockPostHog.getCaptureCall(1)!.properties.$ai_trace_id;
+      expect(traceId).toEqual(expect.any(String));
+      expect(mockPostHog.getCaptureCall(0)!.properties.$ai_trace_id).toBe(traceId);
+      expect(mockPostHog.getCaptureCall(0)!.properties.$ai_parent_id).toBe(traceId);
+    });
+
+    test("marks failed spans as errors and rethrows", async () => {
+      const replicate = new Replicate({
+        posthog: mockPostHog as unknown as PostHog,
+      });
+
+      const failure = replicate.trace("pipeline", (trace) =>
+        trace.span("upscale", () => {
+          throw new Error("upscaler unavailable");
+        })
+      );
+
+      await expect(failure).rejects.toThrow("upscaler unavailable");
+      const span = mockPostHog.getCaptureCall(0)!;
+      const trace = mockPostHog.getCaptureCall(1)!;
+      expect(span.properties.$ai_is_error).toBe(true);
+      expect(span.properties.$ai_error).toMatchObject({ message: "upscaler unavailable" });
+      expect(trace.properties.$ai_is_error).toBe(true);
+    });
+
+    test("records a trace started inside another trace as a span", async () => {
+      const replicate = new Replicate({
+        posthog: mockPostHog as unknown as PostHog,
+      });
+
+      await replicate.trace("outer", (outer) =>
+        outer.span("step", () => replicate.trace("inner", async () => {}))
+      );
+
+      const inner = mockPostHog.getCaptureCall(0)!;
+      const step = mockPostHog.getCaptureCall(1)!;
+      const outer = mockPostHog.getCaptureCall(2)!;
+      expect(inner.event).toBe("$ai_span");
+      expect(inner.properties.$ai_trace_id).toBe(outer.properties.$ai_trace_id);
+      expect(inner.properties.$ai_parent_id).toBe(step.properties.$ai_span_id);
+    });
+
+    test("omits span state in privacy mode", async () => {
+      const replicate = new Replicate({
+        posthog: mockPostHog as unknown as PostHog,
+      });
+
+      await replicate.trace("pipeline", (trace) => {
+        trace.setInput({ prompt: "secret" }).setOutput("result");
+      }, { privacyMode: true });
+
+      const trace = mockPostHog.getCaptureCall(0)!;
+      expect(trace.properties.$ai_input_state).toBeUndefined();
+      expect(trace.properties.$ai_output_state).toBeUndefined();
+    });
+  });
+
+  describe("cancellation", () => {
+    const canceledPrediction = {
+      id: "pred_123",
+      model: "stability-ai/sdxl",
+      status: "canceled",
+      input: { prompt: "A sunset" },
+    };
+
+    test("captures predictions.cancel() with the time since create", async () => {
+      mockPredictionsCancel.mockImplementationOnce(() => Promise.resolve(canceledPrediction));
+      const replicate = new Replicate({
+        posthog: mockPostHog as unknown as PostHog,
+      });
+
+      const createWithTracking = replicate.predictions.create as (options: PredictionCreateOptions) => Promise<unknown>;
+      await createWithTracking({ model: "stability-ai/sdxl", input: { prompt: "A sunset" }, posthogDistinctId: "user_123" });
+      const result = await replicate.predictions.cancel("pred_123");
+
+      expect(result as object).toEqual(canceledPrediction);
+      expect(mockPredictionsCancel).toHaveBeenCalledTimes(1);
+      const captureCall = mockPostHog.getCaptureCall(1);
+      expect(captureCall!.distinctId).toBe("user_123");
+      expect(captureCall!.properties.$ai_model).toBe("stability-ai/sdxl");
+      expect(captureCall!.properties.$ai_is_error).toBe(false);
+      expect(captureCall!.properties.$ai_canceled).toBe(true);
+      expect(captureCall!.properties.$ai_prediction_cancel).toBe(true);
+      expect(captureCall!.properties.$ai_prediction_status).toBe("canceled");
+      expect(captureCall!.properties.$ai_time_since_create).toEqual(expect.any(Number));
+
+      // The stored linkage is released once the prediction is canceled
+      mockPredictionsGet.mockImplementationOnce(() => Promise.resolve(canceledPrediction));
+      await replicate.predictions.get("pred_123");
+      expect(mockPostHog.getCaptureCall(2)!.distinctId).toBe("anonymous");
+    });
+
+    test("attributes the cancellation to the caller", async () => {
+      mockPredictionsCancel.mockImplementationOnce(() => Promise.resolve(canceledPrediction));
+      const replicate = new Replicate({
+        posthog: mockPostHog as unknown as PostHog,
+      });
+
+      const createWithTracking = replicate.predictions.create as (options: PredictionCreateOptions) => Promise<unknown>;
+      await createWithTracking({ model: "stability-ai/sdxl", input: {}, posthogDistinctId: "user_123", posthogTraceId: "trace_1" });
+      const cancelWithTracking = replicate.predictions.cancel as (id: string, options: PredictionCancelOptions) => Promise<unknown>;
+      await cancelWithTracking("pred_123", { posthogDistinctId: "admin_1" });
+
+      const captureCall = mockPostHog.getCaptureCall(1);
+      expect(captureCall!.distinctId).toBe("admin_1");
+      expect(captureCall!.properties.$ai_trace_id).toBe("trace_1");
+    });
+
+    test("sends the single completion event in completion mode", async () => {
+      mockPredictionsCancel.mockImplementationOnce(() => Promise.resolve(canceledPrediction));
+      const replicate = new Replicate({
+        posthog: mockPostHog as unknown as PostHog,
+        asyncPredictionCapture: "completion",
+      });
+
+      const createWithTracking = replicate.predictions.create as (options: PredictionCreateOptions) => Promise<unknown>;
+      await createWithTracking({ model: "stability-ai/sdxl", input: {}, posthogDistinctId: "user_123" });
+      await replicate.predictions.cancel("pred_123");
+
+      expect(mockPostHog.capture).toHaveBeenCalledTimes(1);
+      const captureCall = mockPostHog.getCaptureCall(0);
+      expect(captureCall!.properties.$ai_prediction_completed).toBe(true);
+      expect(captureCall!.properties.$ai_prediction_status).toBe("canceled");
+      expect(captureCall!.properties.$ai_canceled).toBe(true);
+      expect(captureCall!.properties.$ai_time_since_create).toEqual(expect.any(Number));
+    });
+
+    test("reports a run() aborted through its signal as canceled", async () => {
+      const abortError = new DOMException("This operation was aborted", "AbortError");
+      mockRun.mockImplementationOnce(() => Promise.reject(abortError));
+      const replicate = new Replicate({
+        posthog: mockPostHog as unknown as PostHog,
+      });
+
+      const controller = new AbortController();
+      controller.abort();
+      await expect(replicate.run("openai/clip", { input: {}, signal: controller.signal })).rejects.toBe(abortError);
+
+      const captureCall = mockPostHog.getCaptureCall(0);
+      expect(captureCall!.properties.$ai_is_error).toBe(false);
+      expect(captureCall!.properties.$ai_canceled).toBe(true);
+      expect(captureCall!.properties.$ai_http_status).toBe(499);
+      expect(captureCall!.properties.$ai_error).toBeUndefined();
+    });
+
+    test("reports a run() that resolves with a canceled prediction as canceled", async () => {
+      mockRun.mockImplementationOnce((_model, _options, progress) => {
+        progress?.(canceledPrediction);
+        return Promise.resolve({});
+      });
+      const replicate = new Replicate({
+        posthog: mockPostHog as unknown as PostHog,
+      });
+
+      await replicate.run("stability-ai/sdxl", { input: {} });
+
+      const captureCall = mockPostHog.getCaptureCall(0);
+      expect(captureCall!.properties.$ai_is_error).toBe(false);
+      expect(captureCall!.properties.$ai_canceled).toBe(true);
+      // Canceled elsewhere, not by this call's signal
+      expect(captureCall!.properties.$ai_http_status).toBe(200);
+    });
+
+    test("reports a run() whose abort resolves with the canceled prediction with status 499", async () => {
+      const controller = new AbortController();
+      // The SDK cancels the prediction when the signal aborts while polling, and resolves
+      mockRun.mockImplementationOnce((_model, _options, progress) => {
+        controller.abort();
+        progress?.(canceledPrediction);
+        return Promise.resolve({});
+      });
+      const replicate = new Replicate({
+        posthog: mockPostHog as unknown as PostHog,
+      });
+
+      await replicate.run("stability-ai/sdxl", { input: {}, signal: controller.signal });
+
+      const captureCall = mockPostHog.getCaptureCall(0);
+      expect(captureCall!.properties.$ai_is_error).toBe(false);
+      expect(captureCall!.properties.$ai_canceled).toBe(true);
+      expect(captureCall!.properties.$ai_http_status).toBe(499);
+    });
+
+    test("reports an aborted stream() as canceled", async () => {
+      mockStream.mockImplementationOnce(async function* () {
+        yield { event: "output", data: "Hello " };
+        throw new DOMException("This operation was aborted", "AbortError");
+      });
+      const replicate = new Replicate({
+        posthog: mockPostHog as unknown as PostHog,
+      });
+
+      const consume = async () => {
+        for await (const _event of replicate.stream("meta/llama-2-70b-chat", { input: {} })) {
+          // drain
+        }
+      };
+      await expect(consume()).rejects.toThrow("aborted");
+
+      const captureCall = mockPostHog.getCaptureCall(0);
+      expect(captureCall!.properties.$ai_is_error).toBe(false);
+      expect(captureCall!.properties.$ai_canceled).toBe(true);
+      expect(captureCall!.properties.$ai_http_status).toBe(499);
+      expect(captureCall!.properties.$ai_stream_stopped_early).toBe(false);
+      expect(captureCall!.properties.$ai_output_choices).toEqual([{ role: "assistant", content: "Hello " }]);
+    });
+  });
+
+  describe("sampling", () => {
+    test("keeps events at the sampled rate and records it", async () => {
+      const replicate = new Replicate({
+        posthog: mockPostHog as unknown as PostHog,
+        sampling: { rate: 0.5 },
+      });
+
+      for (let i = 0; i < 200; i++) {
+        await replicate.run("openai/clip", { input: {}, posthogDistinctId: `user_${i}` });
+      }
+
+      const kept = mockPostHog.capture.mock.calls.length;
+      expect(kept).toBeGreaterThan(60);
+      expect(kept).toBeLessThan(140);
+      expect(mockPostHog.getCaptureCall(0)!.properties.$ai_sample_rate).toBe(0.5);
+    });
+
+    test("applies per-model rates and always keeps errors", async () => {
+      const replicate = new Replicate({
+        posthog: mockPostHog as unknown as PostHog,
+        sampling: { rate: 1, modelRates: { "openai/clip": 0 } },
+      });
+
+      await replicate.run("openai/clip", { input: {} });
+      await replicate.run("openai/clip:abc123", { input: {} });
+      expect(mockPostHog.capture).toHaveBeenCalledTimes(0);
+
+      mockRun.mockImplementationOnce(() => Promise.reject(new Error("boom")));
+      await expect(replicate.run("openai/clip", { input: {} })).rejects.toThrow("boom");
+      await replicate.run("stability-ai/sdxl", { input: {} });
+
+      expect(mockPostHog.capture).toHaveBeenCalledTimes(2);
+      expect(mockPostHog.getCaptureCall(0)!.properties.$ai_is_error).toBe(true);
+      expect(mockPostHog.getCaptureCall(0)!.properties.$ai_sample_rate).toBe(1);
+      expect(mockPostHog.getCaptureCall(1)!.properties.$ai_model).toBe("stability-ai/sdxl");
+    });
+
+    test("keeps or drops a whole trace together", async () => {
+      const replicate = new Replicate({
+        posthog: mockPostHog as unknown as PostHog,
+        sampling: { rate: 0.5 },
+      });
+
+      for (let i = 0; i < 20; i++) {
+        mockPostHog.capture.mockClear();
+        await replicate.trace("pipeline", async (trace) => {
+          await trace.span("step", () => replicate.run("openai/clip", { input: {} }));
+          await replicate.run("openai/clip", { input: {}, posthogDistinctId: `user_${i}` });
+        }, { traceId: `trace_${i}` });
+        expect([0, 4]).toContain(mockPostHog.capture.mock.calls.length);
+      }
+    });
+  });
+
+  describe("aggregation", () => {
+    afterEach(() => {
+      fakeTimers.useRealTimers();
+    });
+
+    test("sends one summary per model and distinct ID each interval", async () => {
+      fakeTimers.useFakeTimers();
+      const replicate = new Replicate({
+        posthog: mockPostHog as unknown as PostHog,
+        aggregation: { interval: 10_000 },
+      });
+
+      const withUsage = (_model: string, _options: object, progress?: (prediction: object) => void) => {
+        progress?.({ id: "pred_llm", status: "succeeded", metrics: { input_token_count: 1000, output_token_count: 2000 } });
+        return Promise.resolve({});
+      };
+      mockRun.mockImplementationOnce(withUsage).mockImplementationOnce(withUsage);
+      await replicate.run("meta/meta-llama-3-8b-instruct", { input: {}, posthogDistinctId: "user_1" });
+      await replicate.run("meta/meta-llama-3-8b-instruct", { input: {}, posthogDistinctId: "user_1" });
+      mockRun.mockImplementationOnce(() => Promise.reject(new Error("boom")));
+      await expect(replicate.run("meta/meta-llama-3-8b-instruct", { input: {}, posthogDistinctId: "user_1" })).rejects.toThrow();
+      await replicate.run("meta/meta-llama-3-8b-instruct", { input: {}, posthogDistinctId: "user_2" });
+
+      expect(mockPostHog.capture).toHaveBeenCalledTimes(0);
+      fakeTimers.advanceTimersByTime(10_000);
+      expect(mockPostHog.capture).toHaveBeenCalledTimes(2);
+
+      const summary = mockPostHog.getCaptureCall(0)!;
+      expect(summary.event).toBe("$ai_generation_summary");
+      expect(summary.distinctId).toBe("user_1");
+      expect(summary.properties.$ai_model).toBe("meta/meta-llama-3-8b-instruct");
+      expect(summary.properties.$ai_generation_count).toBe(3);
+      expect(summary.properties.$ai_error_count).toBe(1);
+      expect(summary.properties.$ai_latency_p50).toEqual(expect.any(Number));
+      expect(summary.properties.$ai_latency_max).toEqual(expect.any(Number));
+      expect(summary.properties.$ai_input_tokens).toBe(2000);
+      expect(summary.properties.$ai_output_tokens).toBe(4000);
+      expect(summary.properties.$ai_total_cost_usd).toBeCloseTo(0.0011);
+      expect(mockPostHog.getCaptureCall(1)!.properties.$ai_generation_count).toBe(1);
+
+      // Nothing is sent for an interval without generations
+      fakeTimers.advanceTimersByTime(10_000);
+      expect(mockPostHog.capture).toHaveBeenCalledTimes(2);
+    });
+
+    test("sends a summary early once a bucket reaches maxCount", async () => {
+      const replicate = new Replicate({
+        posthog: mockPostHog as unknown as PostHog,
+        aggregation: { maxCount: 2 },
+      });
+
+      await replicate.run("openai/clip", { input: {} });
+      expect(mockPostHog.capture).toHaveBeenCalledTimes(0);
+      await replicate.run("openai/clip", { input: {} });
+      expect(mockPostHog.capture).toHaveBeenCalledTimes(1);
+      expect(mockPostHog.getCaptureCall(0)!.properties.$ai_generation_count).toBe(2);
+    });
+
+    test("counts quota rejections in the summary", async () => {
+      const replicate = new Replicate({
+        posthog: mockPostHog as unknown as PostHog,
+        aggregation: { maxCount: 2 },
+        quota: { limits: [{ per: "distinctId", window: 3600, maxCalls: 1 }] },
+      });
+
+      await replicate.run("openai/clip", { input: {}, posthogDistinctId: "user_123" });
+      await expect(replicate.run("openai/clip", { input: {}, posthogDistinctId: "user_123" })).rejects.toThrow(QuotaExceededError);
+
+      expect(mockPostHog.capture).toHaveBeenCalledTimes(1);
+      expect(mockPostHog.getCaptureCall(0)!.properties).toMatchObject({ $ai_generation_count: 2, $ai_error_count: 1 });
+    });
+
+    test("flushes buffered summaries on posthog.shutdown()", async () => {
+      const originalShutdown = mockPostHog.shutdown;
+      const replicate = new Replicate({
+        posthog: mockPostHog as unknown as PostHog,
+        aggregation: {},
+      });
+
+      await replicate.run("openai/clip", { input: {} });
+      await (mockPostHog as unknown as PostHog).shutdown();
+
+      expect(mockPostHog.capture).toHaveBeenCalledTimes(1);
+      expect(originalShutdown).toHaveBeenCalledTimes(1);
+      expect(originalShutdown.mock.invocationCallOrder[0]!).toBeGreaterThan(mockPostHog.capture.mock.invocationCallOrder[0]!);
+    });
+
+    test("only aggregates the listed models", async () => {
+      const replicate = new Replicate({
+        posthog: mockPostHog as unknown as PostHog,
+        aggregation: { models: ["openai/clip"] },
+      });
+
+      await replicate.run("openai/clip:abc123", { input: {} });
+      await replicate.run("stability-ai/sdxl", { input: {} });
+
+      expect(mockPostHog.capture).toHaveBeenCalledTimes(1);
+      expect(mockPostHog.getCaptureCall(0)!.event).toBe("$ai_generation");
+      expect(mockPostHog.getCaptureCall(0)!.properties.$ai_model).toBe("stability-ai/sdxl");
+    });
+  });
+
+  describe("telemetry sinks", () => {
+    function createTracer() {
+      const exporter = new InMemorySpanExporter();
+      const provider = new BasicTracerProvider({ spanProcessors: [new SimpleSpanProcessor(exporter)] });
+      return { exporter, tracer: provider.getTracer("posthog-replicate-test") };
+    }
+
+    test("records generations as OpenTelemetry spans with gen_ai attributes", async () => {
+      mockRun.mockImplementationOnce((_model, _options, progress) => {
+        progress?.({ id: "pred_llm", status: "succeeded", metrics: { input_token_count: 10, output_token_count: 20 } });
+        return Promise.resolve(["Hi"]);
+      });
+      const { exporter, tracer } = createTracer();
+      const replicate = new Replicate({ sink: new OpenTelemetrySink({ tracer }) });
+
+      await replicate.run("meta/meta-llama-3-8b-instruct", { input: { prompt: "Hello" }, posthogDistinctId: "user_123" });
+
+      const [span] = exporter.getFinishedSpans();
+      expect(span!.name).toBe("generate_content meta/meta-llama-3-8b-instruct");
+      expect(span!.kind).toBe(SpanKind.CLIENT);
+      expect(span!.attributes).toMatchObject({
+        "gen_ai.operation.name": "generate_content",
+        "gen_ai.provider.name": "replicate",
+        "gen_ai.request.model": "meta/meta-llama-3-8b-instruct",
+        "gen_ai.usage.input_tokens": 10,
+        "gen_ai.usage.output_tokens": 20,
+        "server.address": "api.replicate.com",
+        "posthog.distinct_id": "user_123",
+      });
+      expect(span!.attributes["gen_ai.input.messages"]).toBeUndefined();
+    });
+
+    test("marks failed generations and records content when enabled", async () => {
+      mockRun.mockImplementationOnce(() => Promise.reject(new TypeError("bad input")));
+      const { exporter, tracer } = createTracer();
+      const replicate = new Replicate({ sink: new OpenTelemetrySink({ tracer, captureContent: true }) });
+
+      await expect(replicate.run("openai/clip", { input: { text: "a cat" } })).rejects.toThrow("bad input");
+
+      const [span] = exporter.getFinishedSpans();
+      expect(span!.status).toEqual({ code: SpanStatusCode.ERROR, message: "bad input" });
+      expect(span!.attributes["error.type"]).toBe("TypeError");
+      expect(JSON.parse(span!.attributes["gen_ai.input.messages"] as string)).toEqual([
+        { role: "user", parts: [{ type: "text", content: JSON.stringify({ text: "a cat" }) }] },
+      ]);
+    });
+
+    test("records media outputs as uri parts", async () => {
+      mockRun.mockImplementationOnce(() => Promise.resolve(["https://replicate.delivery/out.png"]));
+      const { exporter, tracer } = createTracer();
+      const replicate = new Replicate({ sink: new OpenTelemetrySink({ tracer, captureContent: true }) });
+
+      await replicate.run("stability-ai/sdxl", { input: {} });
+
+      const [span] = exporter.getFinishedSpans();
+      expect(JSON.parse(span!.attributes["gen_ai.output.messages"] as string)).toEqual([
+        {
+          role: "assistant",
+          parts: [{ type: "uri", modality: "image", uri: "https://replicate.delivery/out.png", mime_type: "image/png" }],
+        },
+      ]);
+    });
+
+    test("records trace() spans and skips aggregated summaries", async () => {
+      const { exporter, tracer } = createTracer();
+      const replicate = new Replicate({ sink: new OpenTelemetrySink({ tracer }), aggregation: { maxCount: 1 } });
+
+      await replicate.trace("pipeline", (trace) => trace.span("step", () => replicate.run("openai/clip", { input: {} })));
+
+      expect(exporter.getFinishedSpans().map((span) => [span.name, span.kind])).toEqual([
+        ["step", SpanKind.INTERNAL],
+        ["pipeline", SpanKind.INTERNAL],
+      ]);
+    });
+
+    test("sends events to both the PostHog client and the sink", async () => {
+      const { exporter, tracer } = createTracer();
+      const replicate = new Replicate({
+        posthog: mockPostHog as unknown as PostHog,
+        sink: new OpenTelemetrySink({ tracer }),
+      });
+
+      await replicate.run("openai/clip", { input: {} });
+
+      expect(mockPostHog.capture).toHaveBeenCalledTimes(1);
+      expect(exporter.getFinishedSpans()).toHaveLength(1);
+    });
+
+    test("reports a throwing sink without failing run()", async () => {
+      const error = new Error("sink down");
+      const onSinkError = mock(() => {});
+      const replicate = new Replicate({
+        posthog: mockPostHog as unknown as PostHog,
+        sink: { capture: () => { throw error; } },
+        onSinkError,
+      });
+
+      await expect(replicate.run("openai/clip", { input: {} })).resolves.toBeDefined();
+
+      expect(mockPostHog.capture).toHaveBeenCalledTimes(1);
+      expect(onSinkError).toHaveBeenCalledWith(error, expect.objectContaining({ event: "$ai_generation" }));
+    });
+
+    test("requires a PostHog client or a sink", () => {
+      expect(() => new Replicate({})).toThrow("`posthog` or a TelemetrySink as `sink`");
+    });
+  });
+
+  describe("instrumentReplicate()", () => {
+    async function createClient() {
+      const { default: BaseReplicate } = await import("replicate");
+      return new BaseReplicate();
+    }
+
+    test("tracks calls on an existing client", async () => {
+      const client = await createClient();
+      const replicate = instrumentReplicate(client, { posthog: mockPostHog as unknown as PostHog });
+
+      expect(replicate as object).toBe(client);
+      const output = await replicate.run("openai/clip", { input: { text: "a cat" }, posthogDistinctId: "user_123" });
+      const createWithTracking = replicate.predictions.create as (options: PredictionCreateOptions) => Promise<unknown>;
+      await createWithTracking({ model: "stability-ai/sdxl", input: {}, posthogDistinctId: "user_456" });
+      await replicate.predictions.get("pred_123");
+
+      expect(output).toEqual({ result: "test output" });
+      expect(mockRun).toHaveBeenCalledTimes(1);
+      expect(mockPredictionsCreate).toHaveBeenCalledTimes(1);
+      expect(mockPostHog.capture).toHaveBeenCalledTimes(3);
+      expect(mockPostHog.getCaptureCall(0)!.distinctId).toBe("user_123");
+      expect(mockPostHog.getCaptureCall(0)!.properties.$ai_input).toEqual([{ role: "user", content: { text: "a cat" } }]);
+      expect(mockPostHog.getCaptureCall(2)!.distinctId).toBe("user_456");
+    });
+
+    test("uninstrument() restores the original methods", async () => {
+      const client = await createClient();
+      const originalPredictions = client.predictions;
+      const replicate = instrumentReplicate(client, { posthog: mockPostHog as unknown as PostHog });
+
+      replicate.uninstrument();
+
+      expect(Object.hasOwn(client, "run")).toBe(false);
+      expect(Object.hasOwn(client, "trace")).toBe(false);
+      expect(client.predictions).toBe(originalPredictions);
+      await client.run("openai/clip", { input: {} });
+      await client.predictions.create({ model: "openai/clip", input: {} });
+      expect(mockPostHog.capture).toHaveBeenCalledTimes(0);
+
+      // The client can be instrumented again once restored
+      instrumentReplicate(client, { posthog: mockPostHog as unknown as PostHog });
+      await client.run("openai/clip", { input: {} });
+      expect(mockPostHog.capture).toHaveBeenCalledTimes(1);
+    });
+
+    test("refuses to instrument a client twice", async () => {
+      const client = await createClient();
+      instrumentReplicate(client, { posthog: mockPostHog as unknown as PostHog });
+
+      expect(() => instrumentReplicate(client, { posthog: mockPostHog as unknown as PostHog })).toThrow("already instrumented");
+    });
+
+    test("supports withContext() and trace()", async () => {
+      const client = await createClient();
+      const replicate = instrumentReplicate(client, { posthog: mockPostHog as unknown as PostHog });
+      const scoped = replicate.withContext({ distinctId: "user_scoped" });
+
+      await scoped.trace("pipeline", () => scoped.run("openai/clip", { input: {} }));
+      await replicate.run("openai/clip", { input: {} });
+
+      expect(mockPostHog.getCaptureCall(0)!.distinctId).toBe("user_scoped");
+      expect(mockPostHog.getCaptureCall(1)!.event).toBe("$ai_trace");
+      expect(mockPostHog.getCaptureCall(1)!.distinctId).toBe("user_scoped");
+      expect(mockPostHog.getCaptureCall(2)!.distinctId).toBe("anonymous");
+    });
+  });
+
+  describe("with the Replicate SDK", () => {
+    test("run() captures one generation for the predictions the SDK creates and polls", async () => {
+      const { client, requests } = createSdkClient(respondWithPrediction);
+      const replicate = instrumentReplicate(client, { posthog: mockPostHog as unknown as PostHog });
+
+      const output = await replicate.run("stability-ai/sdxl", { input: { prompt: "a cat" }, posthogDistinctId: "u1" });
+
+      expect(output).toEqual(["a cat"]);
+      expect(requests).toEqual(["POST /v1/models/stability-ai/sdxl/predictions", "GET /v1/predictions/pred_sdk"]);
+      expect(mockPostHog.capture).toHaveBeenCalledTimes(1);
+      const event = mockPostHog.getCaptureCall(0)!;
+      expect(event.distinctId).toBe("u1");
+      expect(event.properties.$ai_total_cost_usd).toBeCloseTo(2 * 0.000975);
+    });
+
+    test("stream() captures one generation for the prediction the SDK creates", async () => {
+      const { client, requests } = createSdkClient((method, path) => {
+        if (method === "POST") {
+          return { id: "pred_sdk", status: "starting", urls: { stream: "https://stream.replicate.com/v1/streams/pred_sdk" } };
+        }
+        if (path === "/v1/predictions/pred_sdk") {
+          return {
+            id: "pred_sdk",
+            status: "succeeded",
+            created_at: "2024-01-01T00:00:00.000Z",
+            started_at: "2024-01-01T00:00:01.000Z",
+            metrics: { input_token_count: 10, output_token_count: 20, predict_time: 1 },
+          };
+        }
+        return new Response("event: output\ndata: Hello\n\nevent: done\ndata: {}\n\n", {
+          headers: { "Content-Type": "text/event-stream" },
+        });
+      });
+      const replicate = instrumentReplicate(client, { posthog: mockPostHog as unknown as PostHog });
+
+      const events = [];
+      for await (const event of replicate.stream("meta/meta-llama-3-8b-instruct", { input: {}, posthogDistinctId: "u1" })) {
+        events.push(event.event);
+      }
+
+      expect(events).toEqual(["output", "done"]);
+      // The finished prediction is read once for its usage and timings
+      expect(requests).toEqual([
+        "POST /v1/models/meta/meta-llama-3-8b-instruct/predictions",
+        "GET /v1/streams/pred_sdk",
+        "GET /v1/predictions/pred_sdk",
+      ]);
+      expect(mockPostHog.capture).toHaveBeenCalledTimes(1);
+      const event = mockPostHog.getCaptureCall(0)!;
+      expect(event.distinctId).toBe("u1");
+      expect(event.properties).toMatchObject({
+        $ai_prediction_id: "pred_sdk",
+        $ai_input_tokens: 10,
+        $ai_output_tokens: 20,
+        $ai_queue_time: 1,
+        $ai_predict_time: 1,
+      });
+      expect(event.properties.$ai_total_cost_usd).toBeGreaterThan(0);
+    });
+
+    test("run() in completion mode captures one generation", async () => {
+      const { client } = createSdkClient(respondWithPrediction);
+      const replicate = instrumentReplicate(client, {
+        posthog: mockPostHog as unknown as PostHog,
+        asyncPredictionCapture: "completion",
+      });
+
+      await replicate.run("stability-ai/sdxl", { input: { prompt: "a cat" }, posthogDistinctId: "u1" });
+
+      expect(mockPostHog.capture).toHaveBeenCalledTimes(1);
+      expect(mockPostHog.getCaptureCall(0)!.distinctId).toBe("u1");
+      expect(mockPostHog.getCaptureCall(0)!.properties.$ai_async_prediction).toBeUndefined();
+    });
+
+    test("an aborted run() in completion mode captures one canceled generation", async () => {
+      const controller = new AbortController();
+      const { client, requests } = createSdkClient((method, path) => {
+        if (path.endsWith("/cancel")) {
+          return { id: "pred_sdk", status: "canceled" };
+        }
+        if (method === "GET") {
+          controller.abort();
+          return { id: "pred_sdk", status: "processing" };
+        }
+        return { id: "pred_sdk", status: "starting" };
+      });
+      const replicate = instrumentReplicate(client, {
+        posthog: mockPostHog as unknown as PostHog,
+        asyncPredictionCapture: "completion",
+      });
+
+      await replicate.run("stability-ai/sdxl", { input: {}, signal: controller.signal, posthogDistinctId: "u1" });
+
+      expect(requests).toContain("POST /v1/predictions/pred_sdk/cancel");
+      expect(mockPostHog.capture).toHaveBeenCalledTimes(1);
+      expect(mockPostHog.getCaptureCall(0)!.distinctId).toBe("u1");
+      expect(mockPostHog.getCaptureCall(0)!.properties.$ai_canceled).toBe(true);
+      expect(mockPostHog.getCaptureCall(0)!.properties.$ai_http_status).toBe(499);
+    });
+
+    test("predictions made outside run() are still tracked", async () => {
+      const { client } = createSdkClient(respondWithPrediction);
+      const replicate = instrumentReplicate(client, { posthog: mockPostHog as unknown as PostHog });
+      const createWithTracking = replicate.predictions.create as (options: PredictionCreateOptions) => Promise<unknown>;
+
+      await createWithTracking({ model: "stability-ai/sdxl", input: { prompt: "a cat" }, posthogDistinctId: "u1" });
+      await replicate.predictions.get("pred_sdk");
+
+      expect(mockPostHog.capture).toHaveBeenCalledTimes(2);
+      expect(mockPostHog.getCaptureCall(1)!.distinctId).toBe("u1");
+      expect(mockPostHog.getCaptureCall(1)!.properties.$ai_prediction_completed).toBe(true);
+    });
+  });
+
+  describe("retries", () => {
+    // Fails like a Replicate ApiError carrying the response
+    function apiError(status: number, headers: Record<string, string> = {}) {
+      return Object.assign(new Error(`Request failed with status ${status}`), {
+        response: new Response(null, { status, headers }),
+      });
+    }
+
+    // Runs like the SDK's run(), creating the prediction and then polling it through the client
+    async function runThroughPredictions(this: unknown, model: string, options: object): Promise<object> {
+      const { predictions } = this as { predictions: { create(options: object): Promise<object>; get(id: string): Promise<object> } };
+      const prediction = (await predictions.create({ ...options, model })) as { id: string };
+      await predictions.get(prediction.id);
+      return { result: "test output" };
+    }
+
+    test("run() retries rate-limited creates and records $ai_retry_count", async () => {
+      mockRun.mockImplementationOnce(runThroughPredictions);
+      mockPredictionsCreate
+        .mockImplementationOnce(() => Promise.reject(apiError(429)))
+        .mockImplementationOnce(() => Promise.reject(apiError(429)));
+      const replicate = new Replicate({
+        posthog: mockPostHog as unknown as PostHog,
+        retry: { initialDelay: 1, jitter: false },
+      });
+
+      const output = await replicate.run("openai/clip", { input: {} });
+
+      expect(output).toEqual({ result: "test output" });
+      expect(mockRun).toHaveBeenCalledTimes(1);
+      expect(mockPredictionsCreate).toHaveBeenCalledTimes(3);
+      expect(mockPostHog.capture).toHaveBeenCalledTimes(1);
+      expect(mockPostHog.getCaptureCall(0)!.properties.$ai_is_error).toBe(false);
+      expect(mockPostHog.getCaptureCall(0)!.properties.$ai_retry_count).toBe(2);
+    });
+
+    test("run() does not create the prediction again when a poll is rate limited", async () => {
+      mockRun.mockImplementationOnce(runThroughPredictions);
+      mockPredictionsGet.mockImplementationOnce(() => Promise.reject(apiError(429)));
+      const replicate = new Replicate({
+        posthog: mockPostHog as unknown as PostHog,
+        retry: { initialDelay: 1 },
+      });
+
+      await expect(replicate.run("openai/clip", { input: {} })).rejects.toThrow("status 429");
+
+      expect(mockPredictionsCreate).toHaveBeenCalledTimes(1);
+      expect(mockPredictionsGet).toHaveBeenCalledTimes(1);
+      expect(mockPostHog.capture).toHaveBeenCalledTimes(1);
+      expect(mockPostHog.getCaptureCall(0)!.properties.$ai_retry_count).toBe(0);
+    });
+
+    test("run() does not retry server errors", async () => {
+      mockRun.mockImplementationOnce(runThroughPredictions);
+      mockPredictionsCreate.mockImplementationOnce(() => Promise.reject(apiError(500)));
+      const replicate = new Replicate({
+        posthog: mockPostHog as unknown as PostHog,
+        retry: { initialDelay: 1 },
+      });
+
+      await expect(replicate.run("openai/clip", { input: {} })).rejects.toThrow("status 500");
+
+      expect(mockPredictionsCreate).toHaveBeenCalledTimes(1);
+      expect(mockPostHog.getCaptureCall(0)!.properties.$ai_http_status).toBe(500);
+      expect(mockPostHog.getCaptureCall(0)!.properties.$ai_retry_count).toBe(0);
+    });
+
+    test("predictions.get() retries server errors and stops at maxAttempts", async () => {
+      mockPredictionsGet.mockImplementation(() => Promise.reject(apiError(503)));
+      const replicate = new Replicate({
+        posthog: mockPostHog as unknown as PostHog,
+        retry: { maxAttempts: 2, initialDelay: 1 },
+      });
+
+      await expect(replicate.predictions.get("pred_123")).rejects.toThrow("status 503");
+      mockPredictionsGet.mockImplementation(() => Promise.resolve({}));
+
+      expect(mockPredictionsGet).toHaveBeenCalledTimes(2);
+      expect(mockPostHog.getCaptureCall(0)!.properties.$ai_retry_count).toBe(1);
+    });
+
+    test("per-call options override the client-wide policy", async () => {
+      mockRun.mockImplementationOnce(runThroughPredictions);
+      mockPredictionsCreate.mockImplementationOnce(() => Promise.reject(apiError(429)));
+      const replicate = new Replicate({
+        posthog: mockPostHog as unknown as PostHog,
+        retry: { initialDelay: 1 },
+      });
+
+      await expect(replicate.run("openai/clip", { input: {}, retry: false })).rejects.toThrow("status 429");
+
+      expect(mockPredictionsCreate).toHaveBeenCalledTimes(1);
+      expect(mockPostHog.getCaptureCall(0)!.properties.$ai_retry_count).toBeUndefined();
+      // The retry option is not passed on to Replicate
+      expect(mockRun.mock.calls[0]?.[1]).not.toHaveProperty("retry");
+    });
+
+    test("captures failed attempts as their own events", async () => {
+      mockRun.mockImplementationOnce(runThroughPredictions);
+      mockPredictionsCreate.mockImplementationOnce(() => Promise.reject(apiError(429)));
+      const replicate = new Replicate({
+        posthog: mockPostHog as unknown as PostHog,
+        retry: { initialDelay: 1, captureFailedAttempts: true },
+      });
+
+      await replicate.run("openai/clip", { input: { text: "a cat" }, posthogDistinctId: "user_123" });
+
+      expect(mockPostHog.capture).toHaveBeenCalledTimes(2);
+      const attempt = mockPostHog.getCaptureCall(0)!;
+      expect(attempt.distinctId).toBe("user_123");
+      expect(attempt.properties.$ai_is_error).toBe(true);
+      expect(attempt.properties.$ai_http_status).toBe(429);
+      expect(attempt.properties.$ai_retry_attempt).toBe(1);
+      expect(mockPostHog.getCaptureCall(1)!.properties.$ai_retry_count).toBe(1);
+    });
+
+    test("stream() retries rate-limited creates", async () => {
+      mockStream.mockImplementationOnce(async function* (this: unknown, model: string, options: object) {
+        await (this as { predictions: { create(options: object): Promise<object> } }).predictions.create({ ...options, model });
+        yield { event: "output", data: "Hello World" };
+      });
+      mockPredictionsCreate.mockImplementationOnce(() => Promise.reject(apiError(429)));
+      const replicate = new Replicate({
+        posthog: mockPostHog as unknown as PostHog,
+        retry: { initialDelay: 1 },
+      });
+
+      const events = [];
+      for await (const event of replicate.stream("meta/llama", { input: {} })) {
+        events.push(event);
+      }
+
+      expect(events).toHaveLength(1);
+      expect(mockStream).toHaveBeenCalledTimes(1);
+      expect(mockPredictionsCreate).toHaveBeenCalledTimes(2);
+      expect(mockPostHog.capture).toHaveBeenCalledTimes(1);
+      expect(mockPostHog.getCaptureCall(0)!.properties.$ai_output_choices).toEqual([
+        { role: "assistant", content: "Hello World" },
+      ]);
+      expect(mockPostHog.getCaptureCall(0)!.properties.$ai_retry_count).toBe(1);
+    });
+
+    test("stream() is not retried once the prediction exists", async () => {
+      mockStream.mockImplementationOnce(async function* () {
+        throw apiError(429);
+      });
+      const replicate = new Replicate({
+        posthog: mockPostHog as unknown as PostHog,
+        retry: { initialDelay: 1 },
+      });
+
+      const consume = async () => {
+        for await (const _event of replicate.stream("meta/llama", { input: {} })) {
+          // Drain the stream
+        }
+      };
+
+      await expect(consume()).rejects.toThrow("status 429");
+      expect(mockStream).toHaveBeenCalledTimes(1);
+      expect(mockPostHog.getCaptureCall(0)!.properties.$ai_retry_count).toBe(0);
+    });
+
+    test("aborting during the backoff cancels the call", async () => {
+      mockRun.mockImplementationOnce(runThroughPredictions);
+      mockPredictionsCreate.mockImplementationOnce(() => Promise.reject(apiError(429)));
+      const replicate = new Replicate({
+        posthog: mockPostHog as unknown as PostHog,
+        retry: { initialDelay: 10_000 },
+      });
+      const controller = new AbortController();
+
+      const result = replicate.run("openai/clip", { input: {}, signal: controller.signal });
+      setTimeout(() => controller.abort(), 5);
+
+      await expect(result).rejects.toThrow();
+      expect(mockPredictionsCreate).toHaveBeenCalledTimes(1);
+      expect(mockPostHog.getCaptureCall(0)!.properties.$ai_canceled).toBe(true);
+    });
+  });
+
+  describe("error classification", () => {
+    test("run() classifies Replicate API errors and parses their detail", async () => {
+      const body = JSON.stringify({ title: "Input validation failed", detail: "- input: prompt is required", status: 422 });
+      mockRun.mockImplementationOnce(() =>
+        Promise.reject(Object.assign(new Error(`Request to https://api.replicate.com/v1/predictions failed with status 422 Unprocessable Entity: ${body}.`), {
+          response: new Response(null, { status: 422 }),
+        }))
+      );
+      const replicate = new Replicate({ posthog: mockPostHog as unknown as PostHog });
+
+      await expect(replicate.run("stability-ai/sdxl", { input: {} })).rejects.toThrow("status 422");
+
+      const properties = mockPostHog.getCaptureCall(0)!.properties;
+      expect(properties.$ai_error_type).toBe("invalid_input");
+      expect(properties.$ai_error_code).toBe("422");
+      expect(properties.$ai_error_detail).toBe("- input: prompt is required");
+    });
+
+    test("run() tells model failures apart from transport failures", async () => {
+      mockRun.mockImplementationOnce((_model, _options, progress) => {
+        progress?.({ id: "pred_failed", status: "failed", error: "CUDA out of memory", logs: "loading weights" });
+        return Promise.reject(new Error("Prediction failed: CUDA out of memory"));
+      });
+      const replicate = new Replicate({ posthog: mockPostHog as unknown as PostHog });
+
+      await expect(replicate.run("stability-ai/sdxl", { input: {} })).rejects.toThrow("Prediction failed");
+
+      expect(mockPostHog.getCaptureCall(0)!.properties.$ai_error_type).toBe("model_error");
+    });
+
+    test("predictions.get() classifies NSFW failures from the prediction logs", async () => {
+      mockPredictionsGet.mockImplementationOnce(() =>
+        Promise.resolve({
+          id: "pred_123",
+          status: "failed",
+          model: "stability-ai/sdxl",
+          error: "Prediction failed",
+          logs: "NSFW content detected. Try a different prompt.",
+        })
+      );
+      const replicate = new Replicate({ posthog: mockPostHog as unknown as PostHog });
+
+      await replicate.predictions.get("pred_123");
+
+      expect(mockPostHog.getCaptureCall(0)!.properties.$ai_error_type).toBe("nsfw_filtered");
+    });
+
+    test("stream() classifies model error events", async () => {
+      mockStream.mockImplementationOnce(async function* () {
+        yield { event: "output", data: "Hello " };
+        throw new Error("Model crashed");
+      });
+      const replicate = new Replicate({ posthog: mockPostHog as unknown as PostHog });
+
+      await expect(async () => {
+        for await (const _event of replicate.stream("meta/llama", { input: {} })) {
+          // consume
+        }
+      }).toThrow("Model crashed");
+
+      expect(mockPostHog.getCaptureCall(0)!.properties.$ai_error_type).toBe("model_error");
+    });
+
+    test("successful calls carry no error type", async () => {
+      const replicate = new Replicate({ posthog: mockPostHog as unknown as PostHog });
+
+      await replicate.run("openai/clip", { input: {} });
+
+      expect(mockPostHog.getCaptureCall(0)!.properties).not.toHaveProperty("$ai_error_type");
+    });
+  });
+
+  describe("prediction timings and logs", () => {
+    const finishedPrediction = {
+      id: "pred_123",
+      status: "succeeded",
+      model: "stability-ai/sdxl",
+      output: ["https://replicate.delivery/out.png"],
+      created_at: "2024-01-01T00:00:00.000Z",
+      started_at: "2024-01-01T00:00:12.000Z",
+      completed_at: "2024-01-01T00:00:16.000Z",
+      metrics: { predict_time: 3.9 },
+      logs: "loading weights\nusing key r8_abcdefghijklmnopqrstuvwxyz\ndone",
+    };
+
+    test("predictions.get() captures queue time, predict time and cold starts", async () => {
+      mockPredictionsGet.mockImplementationOnce(() => Promise.resolve(finishedPrediction));
+      const replicate = new Replicate({ posthog: mockPostHog as unknown as PostHog });
+
+      await replicate.predictions.get("pred_123");
+
+      const properties = mockPostHog.getCaptureCall(0)!.properties;
+      expect(properties.$ai_queue_time).toBe(12);
+      expect(properties.$ai_predict_time).toBe(3.9);
+      expect(properties.$ai_cold_start).toBe(true);
+      expect(properties).not.toHaveProperty("$ai_logs");
+    });
+
+    test("run() captures timings from the last prediction with a custom cold start threshold", async () => {
+      mockRun.mockImplementationOnce((_model, _options, progress) => {
+        progress?.(finishedPrediction);
+        return Promise.resolve(finishedPrediction.output);
+      });
+      const replicate = new Replicate({ posthog: mockPostHog as unknown as PostHog, coldStartThreshold: 30 });
+
+      await replicate.run("stability-ai/sdxl", { input: {} });
+
+      expect(mockPostHog.getCaptureCall(0)!.properties.$ai_queue_time).toBe(12);
+      expect(mockPostHog.getCaptureCall(0)!.properties.$ai_cold_start).toBe(false);
+    });
+
+    test("captures masked logs, keeping the end of long logs", async () => {
+      mockPredictionsGet.mockImplementationOnce(() => Promise.resolve(finishedPrediction));
+      const replicate = new Replicate({
+        posthog: mockPostHog as unknown as PostHog,
+        captureLogs: { maxLength: 30 },
+        redact: { mask: [REDACTION_PATTERNS.apiKey] },
+      });
+
+      await replicate.predictions.get("pred_123");
+
+      const logs = mockPostHog.getCaptureCall(0)!.properties.$ai_logs as string;
+      expect(logs).toStartWith("[truncated ");
+      expect(logs).toEndWith("[REDACTED]\ndone");
+      expect(logs).not.toContain("r8_");
+    });
+
+    test("drops logs in privacy mode", async () => {
+      mockPredictionsGet.mockImplementationOnce(() => Promise.resolve(finishedPrediction));
+      const replicate = new Replicate({ posthog: mockPostHog as unknown as PostHog, captureLogs: true });
+
+      const getWithTracking = replicate.predictions.get as (id: string, options?: PredictionGetOptions) => Promise<unknown>;
+      await getWithTracking("pred_123", { posthogPrivacyMode: true });
+
+      expect(mockPostHog.getCaptureCall(0)!.properties).not.toHaveProperty("$ai_logs");
+    });
+  });
+
+  describe("output formatting", () => {
+    test("joins language model tokens into text", async () => {
+      mockRun.mockImplementationOnce(() => Promise.resolve(["Hello", ",", " world"]));
+      const replicate = new Replicate({ posthog: mockPostHog as unknown as PostHog });
+
+      await replicate.run("meta/meta-llama-3-8b-instruct", { input: {} });
+
+      expect(mockPostHog.getCaptureCall(0)!.properties.$ai_output_choices).toEqual([
+        { role: "assistant", content: "Hello, world" },
+      ]);
+    });
+
+    test("turns media URLs into typed content parts", async () => {
+      mockRun.mockImplementationOnce(() =>
+        Promise.resolve(["https://replicate.delivery/a.mp3", "https://replicate.delivery/b.mp4"])
+      );
+      const replicate = new Replicate({ posthog: mockPostHog as unknown as PostHog });
+
+      await replicate.run("acme/media-model", { input: {} });
+
+      expect(mockPostHog.getCaptureCall(0)!.properties.$ai_output_choices).toEqual([
+        {
+          role: "assistant",
+          content: [
+            { type: "audio", url: "https://replicate.delivery/a.mp3", mime_type: "audio/mpeg" },
+            { type: "video", url: "https://replicate.delivery/b.mp4", mime_type: "video/mp4" },
+          ],
+        },
+      ]);
+    });
+
+    test("summarizes embedding vectors", async () => {
+      const embedding = Array.from({ length: 768 }, () => 0.5);
+      mockRun.mockImplementationOnce(() => Promise.resolve([{ input: "a cat", embedding }]));
+      const replicate = new Replicate({ posthog: mockPostHog as unknown as PostHog });
+
+      await replicate.run("replicate/all-mpnet-base-v2", { input: {} });
+
+      expect(mockPostHog.getCaptureCall(0)!.properties.$ai_output_choices).toEqual([
+        {
+          role: "assistant",
+          content: [{ input: "a cat", embedding: { type: "embedding", dimensions: 768, norm: Math.sqrt(768 * 0.25) } }],
+        },
+      ]);
+    });
+
+    test("uses formatters registered per model", async () => {
+      mockRun.mockImplementation(() => Promise.resolve(["cat", "dog"]));
+      const formatter = mock((output: unknown) => ({ labels: output }));
+      const replicate = new Replicate({
+        posthog: mockPostHog as unknown as PostHog,
+        outputFormatters: { "acme/classifier": formatter },
+      });
+
+      await replicate.run("acme/classifier:abc123", { input: {} });
+      await replicate.run("acme/other", { input: {} });
+      mockRun.mockImplementation(() => Promise.resolve({ result: "test output" }));
+
+      expect(formatter).toHaveBeenCalledWith(["cat", "dog"], "acme/classifier:abc123");
+      expect(mockPostHog.getCaptureCall(0)!.properties.$ai_output_choices).toEqual([
+        { role: "assistant", content: { labels: ["cat", "dog"] } },
+      ]);
+      expect(mockPostHog.getCaptureCall(1)!.properties.$ai_output_choices).toEqual([
+        { role: "assistant", content: "catdog" },
+      ]);
+    });
+  });
+
+  describe("model identity", () => {
+    const version = "a".repeat(64);
+
+    test("splits identifiers into model, owner and version", async () => {
+      const replicate = new Replicate({ posthog: mockPostHog as unknown as PostHog });
+
+      await replicate.run(`stability-ai/sdxl:${version}`, { input: {} });
+
+      const properties = mockPostHog.getCaptureCall(0)!.properties;
+      expect(properties.$ai_model).toBe("stability-ai/sdxl");
+      expect(properties.$ai_model_owner).toBe("stability-ai");
+      expect(properties.$ai_model_version).toBe(version);
+    });
+
+    test("reports predictions created from a bare version hash under their model", async () => {
+      mockPredictionsCreate.mockImplementationOnce(() =>
+        Promise.resolve({ id: "pred_123", status: "starting", model: "stability-ai/sdxl", version })
+      );
+      mockPredictionsGet.mockImplementationOnce(() => Promise.resolve({ id: "pred_123", status: "processing", version }));
+      const replicate = new Replicate({ posthog: mockPostHog as unknown as PostHog });
+
+      await replicate.predictions.create({ version, input: {} });
+      await replicate.predictions.get("pred_123");
+
+      for (const index of [0, 1]) {
+        expect(mockPostHog.getCaptureCall(index)!.properties.$ai_model).toBe("stability-ai/sdxl");
+        expect(mockPostHog.getCaptureCall(index)!.properties.$ai_model_version).toBe(version);
+      }
+    });
+
+    test("reads the version of run() from its prediction", async () => {
+      mockRun.mockImplementationOnce((_model, _options, progress) => {
+        progress?.({ id: "pred_123", status: "succeeded", model: "openai/clip", version });
+        return Promise.resolve({});
+      });
+      const replicate = new Replicate({ posthog: mockPostHog as unknown as PostHog });
+
+      await replicate.run("openai/clip", { input: {} });
+
+      expect(mockPostHog.getCaptureCall(0)!.properties.$ai_model_version).toBe(version);
+    });
+
+    test("leaves out the hidden version of official models", async () => {
+      mockRun.mockImplementationOnce((_model, _options, progress) => {
+        progress?.({ id: "pred_123", status: "succeeded", model: "meta/meta-llama-3-8b-instruct", version: "hidden" });
+        return Promise.resolve({});
+      });
+      mockPredictionsGet.mockImplementationOnce(() => Promise.resolve({ id: "pred_456", status: "processing", version: "hidden" }));
+      const replicate = new Replicate({ posthog: mockPostHog as unknown as PostHog });
+
+      await replicate.run("meta/meta-llama-3-8b-instruct", { input: {} });
+      await replicate.predictions.get("pred_456");
+
+      expect(mockPostHog.getCaptureCall(0)!.properties.$ai_model).toBe("meta/meta-llama-3-8b-instruct");
+      expect(mockPostHog.getCaptureCall(0)!.properties).not.toHaveProperty("$ai_model_version");
+      // "hidden" isn't remembered as a version of the model run last
+      expect(mockPostHog.getCaptureCall(1)!.properties.$ai_model).toBe("unknown");
+    });
+
+    test("looks up and caches the latest version of models called without one", async () => {
+      const lookup = mock((_owner: string, _name: string) => Promise.resolve(version));
+      const replicate = new Replicate({ posthog: mockPostHog as unknown as PostHog, modelVersionLookup: lookup });
+
+      await replicate.run("openai/clip", { input: {} });
+      await replicate.run("openai/clip", { input: {} });
+
+      expect(lookup).toHaveBeenCalledTimes(1);
+      expect(lookup).toHaveBeenCalledWith("openai", "clip");
+      expect(mockPostHog.getCaptureCall(1)!.properties.$ai_model_version).toBe(version);
+    });
+
+    test("leaves the version out when the lookup fails", async () => {
+      const replicate = new Replicate({
+        posthog: mockPostHog as unknown as PostHog,
+        modelVersionLookup: () => Promise.reject(new Error("not found")),
+      });
+
+      await replicate.run("openai/clip", { input: {} });
+
+      expect(mockPostHog.getCaptureCall(0)!.properties.$ai_model).toBe("openai/clip");
+      expect(mockPostHog.getCaptureCall(0)!.properties).not.toHaveProperty("$ai_model_version");
+    });
+  });
+
+  describe("model schemas and output validation", () => {
+    test("types run() input and output from ModelSchemas", async () => {
+      mockRun.mockImplementationOnce(() => Promise.resolve(["https://replicate.delivery/out.png"]));
+      const replicate = new Replicate({ posthog: mockPostHog as unknown as PostHog });
+
+      const output: string[] = await replicate.run("acme/typed-model", { input: { prompt: "a cat" } });
+
+      expect(output).toEqual(["https://replicate.delivery/out.png"]);
+      // Type checks only; never called
+      const _typeChecks = async () => {
+        // @ts-expect-error prompt must be a string
+        await replicate.run("acme/typed-model", { input: { prompt: 1 } });
+        // @ts-expect-error the declared output is string[]
+        const _wrong: number = await replicate.run("acme/typed-model:abc", { input: { prompt: "a cat" } });
+        // Undeclared models accept any input object
+        await replicate.run("acme/other", { input: { anything: true } });
+      };
+    });
+
+    test("records $ai_validation_error when the output doesn't match", async () => {
+      mockRun.mockImplementation(() => Promise.resolve({ result: 42 }));
+      const replicate = new Replicate({
+        posthog: mockPostHog as unknown as PostHog,
+        outputValidators: {
+          "acme/message": (output) => (Array.isArray(output) ? undefined : "expected an array"),
+          "acme/throws": () => {
+            throw new TypeError("output.result must be a string");
+          },
+          "acme/valid": () => true,
+        },
+      });
+
+      await replicate.run("acme/message", { input: {}, posthogPrivacyMode: true });
+      await replicate.run("acme/throws:abc", { input: {} });
+      await replicate.run("acme/valid", { input: {} });
+      mockRun.mockImplementation(() => Promise.resolve({ result: "test output" }));
+
+      expect(mockPostHog.getCaptureCall(0)!.properties.$ai_validation_error).toBe("expected an array");
+      expect(mockPostHog.getCaptureCall(1)!.properties.$ai_validation_error).toBe("output.result must be a string");
+      expect(mockPostHog.getCaptureCall(2)!.properties).not.toHaveProperty("$ai_validation_error");
+    });
+
+    test("does not validate failed calls", async () => {
+      mockRun.mockImplementationOnce(() => Promise.reject(new Error("boom")));
+      const validator = mock(() => "invalid");
+      const replicate = new Replicate({
+        posthog: mockPostHog as unknown as PostHog,
+        outputValidators: { "acme/message": validator },
+      });
+
+      await expect(replicate.run("acme/message", { input: {} })).rejects.toThrow("boom");
+
+      expect(validator).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("feedback and metrics", () => {
+    test("run() reports its generation ID and feedback() links back to it", async () => {
+      const replicate = new Replicate({ posthog: mockPostHog as unknown as PostHog });
+      const onGeneration = mock((_generation: object) => {});
+
+      await replicate.run("stability-ai/sdxl:abc", {
+        input: { prompt: "A sunset" },
+        posthogDistinctId: "user_123",
+        posthogTraceId: "trace_abc",
+        posthogGroups: { company: "acme" },
+        posthogOnGeneration: onGeneration,
+      });
+
+      const generation = mockPostHog.getCaptureCall(0)!;
+      const generationId = generation.properties.$ai_span_id as string;
+      expect(typeof generationId).toBe("string");
+      expect(onGeneration).toHaveBeenCalledWith({ generationId, traceId: "trace_abc", distinctId: "user_123" });
+
+      replicate.feedback(generationId, { score: 1, label: "thumbs_up", comment: "Great!" });
+
+      const feedback = mockPostHog.getCaptureCall(1)!;
+      expect(feedback.event).toBe("$ai_feedback");
+      expect(feedback.distinctId).toBe("user_123");
+      expect(feedback.groups).toEqual({ company: "acme" });
+      expect(feedback.properties).toMatchObject({
+        $ai_generation_id: generationId,
+        $ai_trace_id: "trace_abc",
+        $ai_model: "stability-ai/sdxl",
+        $ai_model_version: "abc",
+        $ai_feedback_score: 1,
+        $ai_feedback_label: "thumbs_up",
+        $ai_feedback_text: "Great!",
+      });
+    });
+
+    test("an error thrown by posthogOnGeneration doesn't replace the call's outcome", async () => {
+      const replicate = new Replicate({ posthog: mockPostHog as unknown as PostHog });
+      const posthogOnGeneration = () => {
+        throw new Error("callback failed");
+      };
+
+      const output = await replicate.run("openai/clip", { input: {}, posthogOnGeneration });
+      mockRun.mockImplementationOnce(() => Promise.reject(new Error("model failed")));
+      const failed = replicate.run("openai/clip", { input: {}, posthogOnGeneration });
+
+      expect(output).toEqual({ result: "test output" });
+      await expect(failed).rejects.toThrow("model failed");
+      expect(mockPostHog.capture).toHaveBeenCalledTimes(2);
+    });
+
+    test("stream() uses posthogGenerationId and captureMetric() sends $ai_metric", async () => {
+      const replicate = new Replicate({ posthog: mockPostHog as unknown as PostHog });
+
+      for await (const _event of replicate.stream("meta/llama-2-70b-chat", {
+        input: { prompt: "Hi" },
+        posthogDistinctId: "user_123",
+        posthogGenerationId: "gen_1",
+      })) {
+        // Consume the stream
+      }
+      replicate.captureMetric("gen_1", { name: "toxicity", value: 0.02, properties: { evaluator: "detoxify" } });
+
+      expect(mockPostHog.getCaptureCall(0)!.properties.$ai_span_id).toBe("gen_1");
+      const metric = mockPostHog.getCaptureCall(1)!;
+      expect(metric.event).toBe("$ai_metric");
+      expect(metric.distinctId).toBe("user_123");
+      expect(metric.properties).toMatchObject({
+        $ai_generation_id: "gen_1",
+        $ai_metric_name: "toxicity",
+        $ai_metric_value: 0.02,
+        evaluator: "detoxify",
+      });
+    });
+
+    test("completion events reuse the generation ID reported by create()", async () => {
+      mockPredictionsGet.mockImplementationOnce(() =>
+        Promise.resolve({ id: "pred_123", model: "stability-ai/sdxl", status: "succeeded", output: ["done"] })
+      );
+      const replicate = new Replicate({
+        posthog: mockPostHog as unknown as PostHog,
+        asyncPredictionCapture: "completion",
+      });
+      let generationId: string | undefined;
+
+      const createWithTracking = replicate.predictions.create as (options: PredictionCreateOptions) => Promise<unknown>;
+      await createWithTracking({
+        model: "stability-ai/sdxl",
+        input: { prompt: "A sunset" },
+        posthogOnGeneration: (generation) => {
+          generationId = generation.generationId;
+        },
+      });
+      expect(mockPostHog.capture).not.toHaveBeenCalled();
+      await replicate.predictions.get("pred_123");
+
+      expect(generationId).toBeDefined();
+      expect(mockPostHog.getCaptureCall(0)!.properties.$ai_span_id).toBe(generationId);
+    });
+
+    test("uses explicit IDs for generations made elsewhere and leaves out comments in privacy mode", () => {
+      const replicate = new Replicate({
+        posthog: mockPostHog as unknown as PostHog,
+        trackingDefaults: { posthogPrivacyMode: true },
+      });
+
+      replicate.feedback("gen_remote", { score: 0, comment: "Wrong colors", distinctId: "user_456", traceId: "trace_xyz" });
+
+      const feedback = mockPostHog.getCaptureCall(0)!;
+      expect(feedback.distinctId).toBe("user_456");
+      expect(feedback.properties.$ai_generation_id).toBe("gen_remote");
+      expect(feedback.properties.$ai_trace_id).toBe("trace_xyz");
+      expect(feedback.properties.$ai_feedback_score).toBe(0);
+      expect(feedback.properties).not.toHaveProperty("$ai_feedback_text");
+      expect(feedback.properties).not.toHaveProperty("$ai_model");
+    });
+
+    test("OpenTelemetrySink skips feedback and metric events", () => {
+      const exporter = new InMemorySpanExporter();
+      const provider = new BasicTracerProvider({ spanProcessors: [new SimpleSpanProcessor(exporter)] });
+      const sink = new OpenTelemetrySink({ tracer: provider.getTracer("test") });
+      const replicate = new Replicate({ sink });
+
+      replicate.feedback("gen_1", { score: 1 });
+      replicate.captureMetric("gen_1", { name: "clip_score", value: 0.31 });
+
+      expect(exporter.getFinishedSpans()).toHaveLength(0);
+    });
+  });
+
+  describe("quotas", () => {
+    test("rejects calls over a per-distinct ID call limit before they reach Replicate", async () => {
+      const replicate = new Replicate({
+        posthog: mockPostHog as unknown as PostHog,
+        quota: { limits: [{ per: "distinctId", window: 3600, maxCalls: 1 }] },
+      });
+
+      await replicate.run("stability-ai/sdxl", { input: {}, posthogDistinctId: "user_123" });
+      const rejected = replicate.run("stability-ai/sdxl", { input: {}, posthogDistinctId: "user_123" });
+      await replicate.run("stability-ai/sdxl", { input: {}, posthogDistinctId: "user_456" });
+
+      const error = await rejected.catch((err: unknown) => err);
+      expect(error).toBeInstanceOf(QuotaExceededError);
+      expect((error as InstanceType<typeof QuotaExceededError>).subject).toBe("user_123");
+      expect((error as InstanceType<typeof QuotaExceededError>).usage).toEqual({ calls: 1, cost: 0 });
+      expect(mockRun).toHaveBeenCalledTimes(2);
+
+      const event = mockPostHog.getCaptureCall(1)!;
+      expect(event.distinctId).toBe("user_123");
+      expect(event.properties).toMatchObject({
+        $ai_model: "stability-ai/sdxl",
+        $ai_is_error: true,
+        $ai_http_status: 429,
+        $ai_error_type: "quota_exceeded",
+      });
+    });
+
+    test("counts estimated spend per group", async () => {
+      mockRun.mockImplementation((_model, _options, progress) => {
+        progress?.({ status: "succeeded", metrics: { predict_time: 10 } });
+        return Promise.resolve(["https://replicate.delivery/out.png"]);
+      });
+      const replicate = new Replicate({
+        posthog: mockPostHog as unknown as PostHog,
+        pricing: { "acme/image-model": { costPerSecond: 0.01 } },
+        quota: { limits: [{ per: "group", groupType: "company", window: 86400, maxCost: 0.15 }] },
+      });
+      const options = { input: {}, posthogGroups: { company: "acme" } };
+
+      await replicate.run("acme/image-model", options);
+      await replicate.run("acme/image-model", options);
+      await expect(replicate.run("acme/image-model", options)).rejects.toThrow(
+        'posthog-replicate: quota of $0.15 of estimated spend per 86400s exceeded for group company "acme"'
+      );
+      // Calls without the group aren't counted
+      await replicate.run("acme/image-model", { input: {} });
+      mockRun.mockImplementation(() => Promise.resolve({ result: "test output" }));
+
+      expect(mockRun).toHaveBeenCalledTimes(3);
+    });
+
+    test("limits only the listed models, across run(), stream() and predictions.create()", async () => {
+      const replicate = new Replicate({
+        posthog: mockPostHog as unknown as PostHog,
+        quota: { limits: [{ per: "model", models: ["stability-ai/sdxl"], window: 60, maxCalls: 2 }] },
+      });
+      const createWithTracking = replicate.predictions.create as (options: PredictionCreateOptions) => Promise<unknown>;
+
+      await replicate.run("stability-ai/sdxl:abc", { input: {} });
+      await createWithTracking({ model: "stability-ai/sdxl", input: {} });
+      const stream = replicate.stream("stability-ai/sdxl", { input: {} });
+      await expect(stream.next()).rejects.toThrow(QuotaExceededError);
+      await replicate.run("openai/clip", { input: {} });
+
+      expect(mockStream).not.toHaveBeenCalled();
+      expect(mockRun).toHaveBeenCalledTimes(2);
+    });
+
+    test("counts the spend of a run() once while the SDK polls its prediction", async () => {
+      const store = {
+        usage: mock((_key: string, _since: number) => Promise.resolve({ calls: 0, cost: 0 })),
+        record: mock((_key: string, _usage: { calls: number; cost: number }, _ttl: number) => Promise.resolve()),
+      };
+      const { client } = createSdkClient(respondWithPrediction);
+      const replicate = instrumentReplicate(client, {
+        posthog: mockPostHog as unknown as PostHog,
+        quota: { limits: [{ per: "model", window: 60, maxCost: 1 }], store },
+      });
+
+      await replicate.run("stability-ai/sdxl", { input: {} });
+
+      const costs = store.record.mock.calls.map(([, usage]) => usage.cost).filter((cost) => cost > 0);
+      expect(costs).toHaveLength(1);
+      expect(costs[0]).toBeCloseTo(2 * 0.000975);
+    });
+
+    test("a failing store doesn't fail a call that finished", async () => {
+      mockRun.mockImplementationOnce((_model, _options, progress) => {
+        progress?.({ status: "succeeded", metrics: { predict_time: 10 } });
+        return Promise.resolve({ result: "test output" });
+      });
+      const store = {
+        usage: mock((_key: string, _since: number) => Promise.resolve({ calls: 0, cost: 0 })),
+        record: mock((_key: string, usage: { calls: number; cost: number }, _ttl: number) =>
+          usage.cost > 0 ? Promise.reject(new Error("store unavailable")) : Promise.resolve()
+        ),
+      };
+      const replicate = new Replicate({
+        posthog: mockPostHog as unknown as PostHog,
+        quota: { limits: [{ per: "model", window: 60, maxCost: 1 }], store },
+      });
+
+      const output = await replicate.run("stability-ai/sdxl", { input: {} });
+
+      expect(output).toEqual({ result: "test output" });
+      expect(store.record).toHaveBeenCalledTimes(2);
+      expect(mockPostHog.getCaptureCall(0)!.properties.$ai_is_error).toBe(false);
+    });
+
+    test("counts usage in a custom store", async () => {
+      const store = {
+        usage: mock((_key: string, _since: number) => Promise.resolve({ calls: 5, cost: 0 })),
+        record: mock((_key: string, _usage: object, _ttl: number) => Promise.resolve()),
+      };
+      const replicate = new Replicate({
+        posthog: mockPostHog as unknown as PostHog,
+        quota: { limits: [{ per: "distinctId", window: 60, maxCalls: 10 }], store },
+      });
+
+      await replicate.run("openai/clip", { input: {}, posthogDistinctId: "user_123" });
+
+      expect(store.usage.mock.calls[0]?.[0]).toBe("distinctId:user_123");
+      expect(store.record).toHaveBeenCalledWith("distinctId:user_123", { calls: 1, cost: 0 }, 60);
+    });
+  });
+
+  describe("response cache", () => {
+    test("answers repeated calls from the cache and captures them as cache hits", async () => {
+      mockRun.mockImplementationOnce((_model, _options, progress) => {
+        progress?.({ status: "succeeded", version: "v1", metrics: { predict_time: 2 } });
+        return Promise.resolve([0.1, 0.2]);
+      });
+      const replicate = new Replicate({
+        posthog: mockPostHog as unknown as PostHog,
+        cache: true,
+        pricing: { "openai/clip": { costPerSecond: 0.001 } },
+      });
+
+      const first = await replicate.run("openai/clip", { input: { image: "https://example.com/a.jpg", mode: "fast" } });
+      const second = await replicate.run("openai/clip", {
+        input: { mode: "fast", image: "https://example.com/a.jpg" },
+        posthogDistinctId: "user_123",
+      });
+
+      expect(second).toEqual(first);
+      expect(mockRun).toHaveBeenCalledTimes(1);
+      expect(mockPostHog.getCaptureCall(0)!.properties.$ai_cache_hit).toBe(false);
+      const hit = mockPostHog.getCaptureCall(1)!;
+      expect(hit.distinctId).toBe("user_123");
+      expect(hit.properties).toMatchObject({ $ai_cache_hit: true, $ai_model: "openai/clip", $ai_model_version: "v1" });
+      expect(hit.properties.$ai_latency as number).toBeLessThan(0.1);
+      expect(hit.properties).not.toHaveProperty("$ai_total_cost_usd");
+    });
+
+    test("caches by model version and input, and can be bypassed per call", async () => {
+      const replicate = new Replicate({ posthog: mockPostHog as unknown as PostHog, cache: { ttl: 60 } });
+
+      await replicate.run("openai/clip:v1", { input: { text: "a" } });
+      await replicate.run("openai/clip:v2", { input: { text: "a" } });
+      await replicate.run("openai/clip:v1", { input: { text: "b" } });
+      await replicate.run("openai/clip:v1", { input: { text: "a" }, cache: false });
+      expect(mockRun).toHaveBeenCalledTimes(4);
+
+      await replicate.run("openai/clip:v1", { input: { text: "a" } });
+      expect(mockRun).toHaveBeenCalledTimes(4);
+      expect(mockPostHog.getCaptureCall(3)!.properties).not.toHaveProperty("$ai_cache_hit");
+    });
+
+    test("does not cache failed calls, unlisted models or outputs that aren't JSON data", async () => {
+      const replicate = new Replicate({
+        posthog: mockPostHog as unknown as PostHog,
+        cache: { models: ["openai/clip"] },
+      });
+
+      mockRun.mockImplementationOnce(() => Promise.reject(new Error("boom")));
+      await expect(replicate.run("openai/clip", { input: {} })).rejects.toThrow("boom");
+      await replicate.run("openai/clip", { input: {} });
+      mockRun.mockImplementationOnce(() => Promise.resolve(new ReadableStream()));
+      await replicate.run("openai/clip", { input: { stream: true } });
+      await replicate.run("openai/clip", { input: { stream: true } });
+      await replicate.run("stability-ai/sdxl", { input: {} });
+      await replicate.run("stability-ai/sdxl", { input: {} });
+
+      expect(mockRun).toHaveBeenCalledTimes(6);
+    });
+
+    test("reads and writes a custom store", async () => {
+      const store = {
+        get: mock((_key: string) => Promise.resolve({ output: "cached", model: "openai/clip:v1" })),
+        set: mock(() => Promise.resolve()),
+      };
+      const replicate = new Replicate({ posthog: mockPostHog as unknown as PostHog, cache: { store } });
+
+      const output = await replicate.run("openai/clip", { input: { text: "a" } });
+
+      expect(output).toBe("cached" as unknown as object);
+      expect(store.get.mock.calls[0]?.[0]).toStartWith("openai/clip#");
+      expect(mockRun).not.toHaveBeenCalled();
+    });
+
+    test("calls the model when the store fails", async () => {
+      const unavailable = () => Promise.reject(new Error("store unavailable"));
+      const replicate = new Replicate({
+        posthog: mockPostHog as unknown as PostHog,
+        cache: { store: { get: unavailable, set: unavailable } },
+      });
+
+      const output = await replicate.run("openai/clip", { input: { text: "a" } });
+
+      expect(output).toEqual({ result: "test output" });
+      expect(mockRun).toHaveBeenCalledTimes(1);
+      expect(mockPostHog.getCaptureCall(0)!.properties).toMatchObject({ $ai_cache_hit: false, $ai_is_error: false });
+    });
+  });
+
+  describe("usage and cost", () => {
+    test("run() captures token usage and cost from the completed prediction", async () => {
+      mockRun.mockImplementationOnce((_model, _options, progress) => {
+        progress?.({
+          id: "pred_llm",
+          status: "succeeded",
+          metrics: { input_token_count: 1000, output_token_count: 2000, predict_time: 1.2 },
+        });
+        return Promise.resolve(["Hello", " world"]);
+      });
+
+      const replicate = new Replicate({
+        posthog: mockPostHog as unknown as PostHog,
+      });
+
+      await replicate.run("meta/meta-llama-3-8b-instruct", {
+        input: { prompt: "Hi" },
+      });
+
+      const captureCall = mockPostHog.getCaptureCall(0);
+      expect(captureCall!.properties.$ai_input_tokens).toBe(1000);
+      expect(captureCall!.properties.$ai_output_tokens).toBe(2000);
+      expect(captureCall!.properties.$ai_input_cost_usd).toBeCloseTo(0.00005);
+      expect(captureCall!.properties.$ai_output_cost_usd).toBeCloseTo(0.0005);
+      expect(captureCall!.properties.$ai_total_cost_usd).toBeCloseTo(0.00055);
+    });
+
+    test("run() forwards progress updates to the caller", async () => {
+      mockRun.mockImplementationOnce((_model, _options, progress) => {
+        progress?.({ id: "pred_1", status: "processing" });
+        return Promise.resolve({});
+      });
+
+      const replicate = new Replicate({
+        posthog: mockPostHog as unknown as PostHog,
+      });
+
+      const progress = mock((_prediction: object) => {});
+      await replicate.run("openai/clip", { input: {} }, progress);
+
+      expect(progress).toHaveBeenCalledTimes(1);
+    });
+
+    test("predictions.get() bills time-based models by predict time", async () => {
+      mockPredictionsGet.mockImplementationOnce(() =>
+        Promise.resolve({
+          id: "pred_123",
+          model: "stability-ai/sdxl",
+          status: "succeeded",
+          output: ["https://replicate.delivery/out.png"],
+          metrics: { predict_time: 4 },
+        })
+      );
+
+      const replicate = new Replicate({
+        posthog: mockPostHog as unknown as PostHog,
+      });
+
+      await replicate.predictions.get("pred_123");
+
+      const captureCall = mockPostHog.getCaptureCall(0);
+      expect(captureCall!.properties.$ai_input_tokens).toBeUndefined();
+      expect(captureCall!.properties.$ai_total_cost_usd).toBeCloseTo(4 * 0.000975);
+    });
+
+    test("custom pricing overrides the defaults", async () => {
+      mockPredictionsGet.mockImplementationOnce(() =>
+        Promise.resolve({
+          id: "pred_123",
+          model: "acme/private-model",
+          status: "succeeded",
+          metrics: { predict_time: 10 },
+        })
+      );
+
+      const replicate = new Replicate({
+        posthog: mockPostHog as unknown as PostHog,
+        pricing: { "acme/private-model": { costPerSecond: 0.01 } },
+      });
+
+      const getWithTracking = replicate.predictions.get as (id: string, options?: PredictionGetOptions) => Promise<unknown>;
+      await getWithTracking("pred_123");
+
+      const captureCall = mockPostHog.getCaptureCall(0);
+      expect(captureCall!.properties.$ai_total_cost_usd).toBeCloseTo(0.1);
+    });
+
+    test("omits cost for models without pricing", async () => {
+      mockPredictionsGet.mockImplementationOnce(() =>
+        Promise.resolve({
+          id: "pred_123",
+          model: "acme/unknown-model",
+          status: "succeeded",
+          metrics: { predict_time: 10 },
+        })
+      );
+
+      const replicate = new Replicate({
+        posthog: mockPostHog as unknown as PostHog,
+      });
+
+      await replicate.predictions.get("pred_123");
+
+      const captureCall = mockPostHog.getCaptureCall(0);
+      expect(captureCall!.properties.$ai_total_cost_usd).toBeUndefined();
+    });
+  });
+});
+
+describe("captureGeneration", () => {
+  test("captures basic generation event", () => {
+    const mockPostHog = createMockPostHog();
+
+    captureGeneration(mockPostHog as unknown as PostHog, {
+      model: "test/model",
+      latency: 1.5,
+      httpStatus: 200,
+      isError: false,
+      input: { prompt: "test" },
+      output: "response",
+      distinctId: "user_123",
+    });
+
+    expect(mockPostHog.capture).toHaveBeenCalledTimes(1);
+
+    const call = mockPostHog.getCaptureCall(0);
+    expect(call).toBeDefined();
+    expect(call!.event).toBe("$ai_generation");
+    expect(call!.distinctId).toBe("user_123");
+    expect(call!.properties.$ai_provider).toBe("replicate");
+    expect(call!.properties.$ai_model).toBe("test/model");
+    expect(call!.properties.$ai_latency).toBe(1.5);
+    expect(call!.properties.$ai_http_status).toBe(200);
+    expect(call!.properties.$ai_base_url).toBe("https://api.replicate.com");
+    expect(call!.properties.$ai_is_error).toBe(false);
+  });
+
+  test("excludes input/output in privacy mode", () => {
+    const mockPostHog = createMockPostHog();
+
+    captureGeneration(mockPostHog as unknown as PostHog, {
+      model: "test/model",
+      latency: 1.0,
+      httpStatus: 200,
+      isError: false,
+      input: { secret: "data" },
+      output: "private response",
+      privacyMode: true,
+    });
+
+    const call = mockPostHog.getCaptureCall(0);
+    expect(call).toBeDefined();
+    expect(call!.properties.$ai_input).toBeUndefined();
+    expect(call!.properties.$ai_output_choices).toBeUndefined();
+  });
+});
+
+describe("pricing", () => {
+  test("resolvePricing falls back to owner/name for versioned identifiers", () => {
+    const table = { "owner/model": { costPerSecond: 1 } };
+    expect(resolvePricing("owner/model:abc123", table)).toEqual({ costPerSecond: 1 });
+    expect(resolvePricing("owner/other", table)).toBeUndefined();
+  });
+
+  test("calculateCost prefers token pricing when token counts are present", () => {
+    const cost = calculateCost(
+      { inputTokens: 10, outputTokens: 20, predictTime: 3 },
+      { inputCostPerToken: 1, outputCostPerToken: 2, costPerSecond: 100 }
+    );
+    expect(cost).toEqual({ input: 10, output: 40, total: 50 });
+  });
+
+  test("calculateCost uses hardware pricing for predict time", () => {
+    const cost = calculateCost({ predictTime: 2 }, { hardware: "gpu-a100-large" });
+    expect(cost!.total).toBeCloseTo(2 * HARDWARE_PRICING["gpu-a100-large"]!);
+  });
+
+  test("extractUsage ignores predictions without metrics", () => {
+    expect(extractUsage({ id: "pred" })).toBeUndefined();
+    expect(extractUsage(undefined)).toBeUndefined();
+  });
+});
+
+describe("summarizeMedia", () => {
+  const sha256 = (data: Uint8Array) => createHash("sha256").update(data).digest("hex");
+
+  test("describes Buffers, typed arrays and ArrayBuffers by their contents", () => {
+    const jpeg = new Uint8Array([0xff, 0xd8, 0xff, 0xe0, 0x00]);
+    const wav = Buffer.from("RIFF\0\0\0\0WAVEfmt ", "latin1");
+    const mp4 = Buffer.from("\0\0\0\x18ftypisom", "latin1");
+    const unknown = new Uint8Array([1, 2, 3]).buffer;
+
+    expect(summarizeMedia(jpeg)).toEqual({ type: "media", mime_type: "image/jpeg", size: 5, sha256: sha256(jpeg) });
+    expect(summarizeMedia(wav)).toMatchObject({ mime_type: "audio/wav", size: wav.length });
+    expect(summarizeMedia(mp4)).toMatchObject({ mime_type: "video/mp4" });
+    expect(summarizeMedia(unknown)).toMatchObject({ mime_type: "application/octet-stream", size: 3 });
+  });
+
+  test("decodes base64 data URIs", () => {
+    const audio = Buffer.from("ID3 fake mp3 data");
+    const uri = `data:audio/mpeg;base64,${audio.toString("base64")}`;
+
+    expect(summarizeMedia({ audio: uri })).toEqual({
+      audio: { type: "media", mime_type: "audio/mpeg", size: audio.length, sha256: sha256(audio) },
+    });
+  });
+
+  test("decodes percent-encoded data URIs, keeping data that isn't encoded as it is", () => {
+    expect(summarizeMedia("data:text/plain,caf%C3%A9")).toMatchObject({ mime_type: "text/plain", size: 5 });
+    expect(summarizeMedia("data:,50% off")).toMatchObject({ size: 7, sha256: sha256(Buffer.from("50% off")) });
+  });
+
+  test("describes Blobs and Files without reading them", () => {
+    const file = new File(["%PDF-"], "report.pdf", { type: "application/pdf" });
+
+    expect(summarizeMedia(new Blob(["abc"], { type: "image/png" }))).toEqual({ type: "media", mime_type: "image/png", size: 3 });
+    expect(summarizeMedia(file)).toEqual({ type: "media", mime_type: "application/pdf", size: 5, name: "report.pdf" });
+  });
+
+  test("describes streams without consuming them", () => {
+    expect(summarizeMedia(new ReadableStream())).toEqual({ type: "media" });
+  });
+
+  test("leaves URLs and other values alone", () => {
+    const value = { image: "https://example.com/a.jpg", url: new URL("https://example.com/b.png"), count: 3, flag: true };
+
+    expect(summarizeMedia(value)).toEqual({
+      image: "https://example.com/a.jpg",
+      url: "https://example.com/b.png",
+      count: 3,
+      flag: true,
+    });
+  });
+});
+
+describe("sampleEvent", () => {
+  test("is deterministic by trace ID, then distinct ID", () => {
+    const first = sampleEvent({ rate: 0.5 }, { traceId: "trace_1", distinctId: "user_1" });
+    for (let i = 0; i < 10; i++) {
+      expect(sampleEvent({ rate: 0.5 }, { traceId: "trace_1", distinctId: `user_${i}` })).toEqual(first);
+      expect(sampleEvent({ rate: 0.5 }, { distinctId: "user_1" })).toEqual(sampleEvent({ rate: 0.5 }, { distinctId: "user_1" }));
+    }
+  });
+
+  test("keeps the events of a lower rate at every higher rate", () => {
+    for (let i = 0; i < 50; i++) {
+      const event = { traceId: `trace_${i}` };
+      if (sampleEvent({ rate: 0.2 }, event).sampled) {
+        expect(sampleEvent({ rate: 0.6 }, event).sampled).toBe(true);
+      }
+    }
+  });
+
+  test("resolves model rates by exact match, then without the version", () => {
+    const options = { rate: 0, modelRates: { "meta/llama": 1, "meta/llama:v2": 0 } };
+    expect(sampleEvent(options, { model: "meta/llama:v1" })).toEqual({ sampled: true, rate: 1 });
+    expect(sampleEvent(options, { model: "meta/llama:v2" })).toEqual({ sampled: false, rate: 0 });
+    expect(sampleEvent(options, { model: "openai/clip" })).toEqual({ sampled: false, rate: 0 });
+  });
+
+  test("drops errors too when keepErrors is false", () => {
+    expect(sampleEvent({ rate: 0 }, { isError: true }).sampled).toBe(true);
+    expect(sampleEvent({ rate: 0, keepErrors: false }, { isError: true }).sampled).toBe(false);
+  });
+});
+
+describe("getRetryDelay", () => {
+  const rateLimited = (headers: Record<string, string> = {}) => ({ response: new Response(null, { status: 429, headers }) });
+
+  test("backs off exponentially up to maxDelay", () => {
+    const policy = { initialDelay: 100, maxDelay: 300, maxAttempts: 5, jitter: false };
+    expect(getRetryDelay(rateLimited(), 1, policy, false)).toBe(100);
+    expect(getRetryDelay(rateLimited(), 2, policy, false)).toBe(200);
+    expect(getRetryDelay(rateLimited(), 3, policy, false)).toBe(300);
+    expect(getRetryDelay(rateLimited(), 5, policy, false)).toBeUndefined();
+  });
+
+  test("applies jitter within half of the delay", () => {
+    const delay = getRetryDelay(rateLimited(), 1, { initialDelay: 100 }, false)!;
+    expect(delay).toBeGreaterThanOrEqual(50);
+    expect(delay).toBeLessThanOrEqual(100);
+  });
+
+  test("honors Retry-After and gives up when it exceeds maxDelay", () => {
+    expect(getRetryDelay(rateLimited({ "retry-after": "2" }), 1, {}, false)).toBe(2000);
+    expect(getRetryDelay(rateLimited({ "retry-after": "120" }), 1, {}, false)).toBeUndefined();
+    const date = new Date(Date.now() + 60_000).toUTCString();
+    expect(getRetryDelay(rateLimited({ "retry-after": date }), 1, { maxDelay: 120_000 }, false)).toBeGreaterThan(50_000);
+  });
+
+  test("only retries server and network errors for idempotent operations", () => {
+    const serverError = { status: 502 };
+    expect(getRetryDelay(serverError, 1, {}, false)).toBeUndefined();
+    expect(getRetryDelay(serverError, 1, {}, true)).toBeDefined();
+    expect(getRetryDelay(new TypeError("fetch failed"), 1, {}, true)).toBeDefined();
+    expect(getRetryDelay({ status: 422 }, 1, {}, true)).toBeUndefined();
+  });
+});
+
+describe("classifyError", () => {
+  const httpError = (status: number, body = "") =>
+    Object.assign(new Error(`Request failed with status ${status}: ${body}.`), { response: { status } });
+
+  test("classifies HTTP statuses", () => {
+    expect(classifyError({ error: httpError(429) }).type).toBe("rate_limited");
+    expect(classifyError({ error: httpError(401) }).type).toBe("auth");
+    expect(classifyError({ error: httpError(504) }).type).toBe("timeout");
+    expect(classifyError({ error: httpError(503) })).toEqual({ type: "server_error", code: "503" });
+    expect(classifyError({ error: httpError(404) }).type).toBe("invalid_input");
+  });
+
+  test("classifies inputs flagged by a safety checker", () => {
+    const body = JSON.stringify({ detail: "The input was flagged as sensitive. Please try again with different inputs. (E005)" });
+    expect(classifyError({ error: httpError(422, body) }).type).toBe("nsfw_filtered");
+    expect(classifyError({ error: "flagged as sensitive (E005)", modelFailure: true })).toEqual({ type: "nsfw_filtered", code: "E005" });
+  });
+
+  test("classifies failures without a response", () => {
+    const networkError = new TypeError("fetch failed", { cause: Object.assign(new Error("reset"), { code: "ECONNRESET" }) });
+    expect(classifyError({ error: networkError })).toEqual({ type: "network", code: "ECONNRESET" });
+    expect(classifyError({ error: new DOMException("timed out", "TimeoutError") }).type).toBe("timeout");
+    expect(classifyError({ error: new Error("Something odd") }).type).toBe("unknown");
+  });
+
+  test("classifies cancellations and model timeouts", () => {
+    expect(classifyError({ canceled: true }).type).toBe("canceled");
+    expect(classifyError({ error: "Prediction timed out", modelFailure: true }).type).toBe("timeout");
+  });
+});
+
+describe("GenerationAggregator", () => {
+  test("reports nearest-rank latency percentiles", () => {
+    const posthog = createMockPostHog();
+    const aggregator = new GenerationAggregator(posthog as unknown as PostHog, {});
+
+    for (let latency = 1; latency <= 20; latency++) {
+      aggregator.add({ model: "openai/clip", latency, httpStatus: 200, isError: false });
+    }
+    aggregator.flush();
+
+    const summary = posthog.getCaptureCall(0)!;
+    expect(summary.distinctId).toBe("anonymous");
+    expect(summary.properties.$ai_generation_count).toBe(20);
+    expect(summary.properties.$ai_latency_p50).toBe(10);
+    expect(summary.properties.$ai_latency_p95).toBe(19);
+    expect(summary.properties.$ai_latency_max).toBe(20);
+    expect(summary.properties.$ai_input_tokens).toBeUndefined();
+    expect(summary.properties.$ai_total_cost_usd).toBeUndefined();
+  });
+});
+
+describe("FanOutSink", () => {
+  test("delivers to every sink and reports errors instead of throwing", () => {
+    const error = new Error("sink down");
+    const failing = { capture: mock(() => { throw error; }) };
+    const healthy = createMockPostHog();
+    const onError = mock(() => {});
+    const sink = new FanOutSink([failing, healthy], onError);
+    const record = { event: "$ai_generation", distinctId: "user_123", properties: {} };
+
+    expect(() => sink.capture(record)).not.toThrow();
+    expect(healthy.capture).toHaveBeenCalledTimes(1);
+    expect(onError).toHaveBeenCalledWith(error, record);
+  });
+
+});
+
+describe("InMemoryPredictionTrackingStore", () => {
+  const state = { params: { posthogDistinctId: "user_123" }, createdAt: 0 };
+
+  test("evicts the least recently used entry when full", async () => {
+    const store = new InMemoryPredictionTrackingStore({ maxSize: 2 });
+    await store.set("a", state, 60);
+    await store.set("b", state, 60);
+    await store.get("a");
+    await store.set("c", state, 60);
+
+    expect(store.size).toBe(2);
+    expect(await store.get("a")).toEqual(state);
+    expect(await store.get("b")).toBeUndefined();
+    expect(await store.get("c")).toEqual(state);
+  });
+
+  test("expires entries after their TTL", async () => {
+    const store = new InMemoryPredictionTrackingStore();
+    await store.set("a", state, 0);
+
+    expect(await store.get("a")).toBeUndefined();
+    expect(store.size).toBe(0);
+  });
+});
+
+describe("InMemoryQuotaStore", () => {
+  test("sums usage inside the window", async () => {
+    const store = new InMemoryQuotaStore();
+    await store.record("distinctId:user_123", { calls: 1, cost: 0 }, 60);
+    await store.record("distinctId:user_123", { calls: 0, cost: 0.25 }, 60);
+
+    expect(await store.usage("distinctId:user_123", 0)).toEqual({ calls: 1, cost: 0.25 });
+    expect(await store.usage("distinctId:user_123", Date.now() + 1)).toEqual({ calls: 0, cost: 0 });
+    expect(await store.usage("distinctId:user_456", 0)).toEqual({ calls: 0, cost: 0 });
+  });
+
+  test("expires usage and evicts the least recently used key when full", async () => {
+    const store = new InMemoryQuotaStore({ maxKeys: 2 });
+    await store.record("a", { calls: 1, cost: 0 }, 0);
+    expect(await store.usage("a", 0)).toEqual({ calls: 0, cost: 0 });
+
+    await store.record("a", { calls: 1, cost: 0 }, 60);
+    await store.record("b", { calls: 1, cost: 0 }, 60);
+    await store.usage("a", 0);
+    await store.record("c", { calls: 1, cost: 0 }, 60);
+
+    expect(store.size).toBe(2);
+    expect(await store.usage("b", 0)).toEqual({ calls: 0, cost: 0 });
+    expect(await store.usage("a", 0)).toEqual({ calls: 1, cost: 0 });
+  });
+});
+
+describe("InMemoryResponseCacheStore", () => {
+  const response = { output: { text: "hello" }, model: "openai/clip" };
+
+  test("copies responses and evicts the least recently used one when full", async () => {
+    const store = new InMemoryResponseCacheStore({ maxSize: 2 });
+    await store.set("a", response, 60);
+    await store.set("b", response, 60);
+    const cached = await store.get("a");
+    (cached!.output as { text: string }).text = "changed";
+    await store.set("c", response, 60);
+
+    expect(store.size).toBe(2);
+    expect(await store.get("a")).toEqual(response);
+    expect(await store.get("b")).toBeUndefined();
+  });
+
+  test("expires responses after their TTL", async () => {
+    const store = new InMemoryResponseCacheStore();
+    await store.set("a", response, 0);
+
+    expect(await store.get("a")).toBeUndefined();
+    expect(store.size).toBe(0);
+  });
+});
+
+describe("canonicalJson", () => {
+  test("sorts keys and hashes bytes", () => {
+    expect(canonicalJson({ b: [1, { d: true, c: null }], a: "x", skip: undefined })).toBe('{"a":"x","b":[1,{"c":null,"d":true}]}');
+    expect(canonicalJson({ image: Buffer.from("abc") })).toBe(canonicalJson({ image: new Uint8Array([97, 98, 99]) }));
+  });
+
+  test("returns undefined for values without a canonical form", () => {
+    expect(canonicalJson({ image: new Blob(["abc"]) })).toBeUndefined();
+    expect(canonicalJson([Number.NaN])).toBeUndefined();
+  });
+});
+
+describe("FilePredictionTrackingStore", () => {
+  test("stores, expires and prunes entries", async () => {
+    const directory = await mkdtemp(join(tmpdir(), "posthog-replicate-"));
+    try {
+      const store = new FilePredictionTrackingStore({ directory });
+      const state = { params: { posthogTraceId: "trace_1" }, createdAt: 0, model: "openai/clip" };
+
+      await store.set("pred/1", state, 60);
+      await store.set("pred_2", state, 0);
+      expect(await store.get("pred/1")).toEqual(state);
+      expect(await store.prune()).toBe(1);
+      expect(await store.get("pred_2")).toBeUndefined();
+
+      await store.delete("pred/1");
+      await store.delete("pred/1");
+      expect(await store.get("pred/1")).toBeUndefined();
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  test("creates the directory again after a failed attempt", async () => {
+    const parent = await mkdtemp(join(tmpdir(), "posthog-replicate-"));
+    try {
+      // A file where the parent directory should be makes mkdir fail
+      const blocker = join(parent, "blocked");
+      await writeFile(blocker, "");
+      const store = new FilePredictionTrackingStore({ directory: join(blocker, "store") });
+      const state = { params: {}, createdAt: 0, model: "openai/clip" };
+
+      await expect(store.set("pred_1", state, 60)).rejects.toThrow();
+      await rm(blocker);
+      await mkdir(blocker);
+      await store.set("pred_1", state, 60);
+
+      expect(await store.get("pred_1")).toEqual(state);
+    } finally {
+      await rm(parent, { recursive: true, force: true });
+    }
+  });
+
+  test("handles concurrent writes of the same entry", async () => {
+    const directory = await mkdtemp(join(tmpdir(), "posthog-replicate-"));
+    try {
+      const store = new FilePredictionTrackingStore({ directory });
+      const states = Array.from({ length: 10 }, (_, i) => ({ params: {}, createdAt: i, model: "openai/clip" }));
+
+      await Promise.all(states.map((state) => store.set("pred_1", state, 60)));
+
+      expect(states.map(({ createdAt }) => createdAt)).toContain((await store.get("pred_1"))!.createdAt);
+      expect(await readdir(directory)).toEqual(["pred_1.json"]);
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
   });
 });
 
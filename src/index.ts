@@ -1,61 +1,89 @@
 import ReplicateOriginal from "replicate";
-import type { PostHog } from "posthog-node";
-import { captureGeneration, createTimer } from "./capture.js";
+import type { Prediction } from "replicate";
+import { ReplicateInstrumentation } from "./instrument.js";
+import type { TraceSpan } from "./trace.js";
 import type {
+  FeedbackOptions,
+  InstrumentationOptions,
+  MetricOptions,
+  ModelIdentifier,
+  ModelOutput,
   ReplicateOptions,
   RunOptions,
   StreamOptions,
-  PredictionCreateOptions,
-  PredictionGetOptions,
-  PostHogTrackingOptions,
+  TrackingContext,
 } from "./types.js";
 
-/**
- * Extracts PostHog tracking options from combined options object
- * Returns the PostHog params and the remaining Replicate options
- */
-function extractPostHogParams<T extends PostHogTrackingOptions>(
-  options: T
-): {
-  posthogParams: PostHogTrackingOptions;
-  replicateOptions: Omit<T, keyof PostHogTrackingOptions>;
-} {
-  const {
-    posthogDistinctId,
-    posthogTraceId,
-    posthogProperties,
-    posthogGroups,
-    posthogPrivacyMode,
-    ...replicateOptions
-  } = options;
-
-  return {
-    posthogParams: {
-      posthogDistinctId,
-      posthogTraceId,
-      posthogProperties,
-      posthogGroups,
-      posthogPrivacyMode,
-    },
-    replicateOptions: replicateOptions as Omit<T, keyof PostHogTrackingOptions>,
-  };
-}
-
 // Re-export types for consumers
 export type {
   ReplicateOptions,
+  InstrumentationOptions,
   RunOptions,
   StreamOptions,
   PredictionCreateOptions,
   PredictionGetOptions,
+  PredictionCancelOptions,
+  DeploymentPredictionCreateOptions,
   PostHogTrackingOptions,
+  GenerationTrackingOptions,
+  GenerationReference,
+  FeedbackOptions,
+  MetricOptions,
+  QuotaOptions,
+  QuotaLimit,
+  QuotaStore,
+  QuotaUsage,
+  CacheOptions,
+  CachedResponse,
+  ResponseCacheStore,
+  ModelPricing,
+  PredictionUsage,
+  AsyncPredictionCaptureMode,
+  PredictionTrackingState,
+  PredictionTrackingStore,
+  RedactOptions,
+  SamplingOptions,
+  AggregationOptions,
+  RetryOptions,
+  LogCaptureOptions,
+  OutputFormatter,
+  OutputContentPart,
+  ModelVersionLookup,
+  ModelSchemas,
+  ModelIdentifier,
+  ModelInput,
+  ModelOutput,
+  OutputValidator,
+  ErrorType,
+  MediaDescriptor,
+  TrackingContext,
+  TelemetryRecord,
+  TelemetrySink,
 } from "./types.js";
+export { DEFAULT_MODEL_PRICING, HARDWARE_PRICING } from "./pricing.js";
+export { createPostHogWebhookHandler, verifyWebhookSignature } from "./webhook.js";
+export { InMemoryPredictionTrackingStore, FilePredictionTrackingStore } from "./store.js";
+export { QuotaExceededError, InMemoryQuotaStore } from "./quota.js";
+export { InMemoryResponseCacheStore } from "./cache.js";
+export { REDACTION_PATTERNS } from "./redact.js";
+export { withPostHogContext, runInTrace, getPostHogContext } from "./context.js";
+export { TraceSpan } from "./trace.js";
+export { GenerationAggregator } from "./aggregate.js";
+export { PostHogSink, FanOutSink, OpenTelemetrySink } from "./sinks.js";
+export type { InMemoryPredictionTrackingStoreOptions, FilePredictionTrackingStoreOptions } from "./store.js";
+export type { InMemoryQuotaStoreOptions } from "./quota.js";
+export type { InMemoryResponseCacheStoreOptions } from "./cache.js";
+export { instrumentReplicate } from "./instrument.js";
+export type { OpenTelemetrySinkOptions, SinkErrorHandler } from "./sinks.js";
+export type { InstrumentedReplicate } from "./instrument.js";
+export type { WebhookHandlerOptions, PostHogWebhookHandler, WebhookRequestData } from "./webhook.js";
 
 /**
  * PostHog-instrumented extension of the Replicate SDK
  *
  * This class extends the official Replicate SDK and automatically sends
- * `$ai_generation` events to PostHog for LLM analytics.
+ * `$ai_generation` events to PostHog for LLM analytics, or to any other
+ * TelemetrySink such as OpenTelemetrySink.
  *
  * @example
  * ```typescript
@@ -74,27 +102,120 @@ export type {
  * ```
  */
 export class PostHogReplicate extends ReplicateOriginal {
-  private posthog: PostHog;
-  private originalPredictionsCreate: ReplicateOriginal["predictions"]["create"];
-  private originalPredictionsGet: ReplicateOriginal["predictions"]["get"];
-  /** Map prediction IDs to their PostHog tracking params from create() */
-  private predictionTrackingParams: Map<string, PostHogTrackingOptions> = new Map();
+  private instrumentation: ReplicateInstrumentation;
 
   constructor(options: ReplicateOptions) {
-    const { posthog, ...replicateOptions } = options;
+    const {
+      posthog,
+      sink,
+      onSinkError,
+      pricing,
+      asyncPredictionCapture,
+      capturePollSpans,
+      predictionTrackingStore,
+      predictionTrackingTtl,
+      redact,
+      trackingDefaults,
+      sampling,
+      aggregation,
+      retry,
+      captureLogs,
+      coldStartThreshold,
+      outputFormatters,
+      outputValidators,
+      modelVersionLookup,
+      quota,
+      cache,
+      ...replicateOptions
+    } = options;
     super(replicateOptions);
-    this.posthog = posthog;
+    const instrumentationOptions: InstrumentationOptions = {
+      posthog,
+      sink,
+      onSinkError,
+      pricing,
+      asyncPredictionCapture,
+      capturePollSpans,
+      predictionTrackingStore,
+      predictionTrackingTtl,
+      redact,
+      trackingDefaults,
+      sampling,
+      aggregation,
+      retry,
+      captureLogs,
+      coldStartThreshold,
+      outputFormatters,
+      outputValidators,
+      modelVersionLookup,
+      quota,
+      cache,
+    };
+    // run() and stream() are overridden below, so the instrumentation calls the SDK's own
+    this.instrumentation = new ReplicateInstrumentation(this, instrumentationOptions, {
+      run: super.run,
+      stream: super.stream,
+    });
+    this.instrumentation.install(this);
+  }
 
-    // Store references to original predictions methods before wrapping
-    this.originalPredictionsCreate = this.predictions.create.bind(this.predictions);
-    this.originalPredictionsGet = this.predictions.get.bind(this.predictions);
+  /**
+   * Create a client that applies the given tracking context to every call
+   *
+   * The scoped client shares this client's Replicate connection, PostHog
+   * client and prediction tracking store. Context values sit under per-call
+   * options, and over the defaults of the client it was created from, so
+   * scopes can be nested.
+   *
+   * @param context - Tracking values to apply to every call
+   * @returns A scoped client
+   *
+   * @example
+   * ```typescript
+   * app.use((req, res, next) => {
+   *   req.replicate = replicate.withContext({ distinctId: req.user.id, traceId: req.id });
+   *   next();
+   * });
+   * ```
+   */
+  withContext(context: TrackingContext): PostHogReplicate {
+    const scoped = Object.create(this) as PostHogReplicate;
+    scoped.instrumentation = this.instrumentation.scoped(context, scoped);
+    scoped.instrumentation.install(scoped);
+    return scoped;
+  }
 
-    // Wrap predictions methods with PostHog tracking
-    const self = this;
-    const wrappedCreate = (options: PredictionCreateOptions) => self.createPrediction(options);
-    const wrappedGet = (predictionId: string, options?: PredictionGetOptions) => self.getPrediction(predictionId, options);
-    (this.predictions as Record<string, unknown>).create = wrappedCreate;
-    (this.predictions as Record<string, unknown>).get = wrappedGet;
+  /**
+   * Run a multi-step pipeline as a trace
+   *
+   * Sends a `$ai_trace` event when `fn` settles, and a `$ai_span` event for
+   * each child span started with `span.span()`. Generations run inside `fn`
+   * are linked to the innermost span through `$ai_trace_id` and
+   * `$ai_parent_id`. When called inside another trace, the new trace is
+   * recorded as a child span of the current one instead.
+   *
+   * @param name - Name of the trace
+   * @param fn - Function running the pipeline
+   * @param context - Tracking values for the trace, its spans and generations
+   * @returns The return value of `fn`
+   *
+   * @example
+   * ```typescript
+   * const image = await replicate.trace("illustrate", async (span) => {
+   *   const caption = await span.span("caption", () =>
+   *     replicate.run("salesforce/blip", { input: { image: source } })
+   *   );
+   *   const draft = await span.span("generate", () =>
+   *     replicate.run("stability-ai/sdxl", { input: { prompt: String(caption) } })
+   *   );
+   *   return span.span("upscale", () =>
+   *     replicate.run("nightmareai/real-esrgan", { input: { image: draft } })
+   *   );
+   * }, { distinctId: "user_123" });
+   * ```
+   */
+  trace<T>(name: string, fn: (span: TraceSpan) => T | Promise<T>, context?: TrackingContext): Promise<T> {
+    return this.instrumentation.trace(name, fn, context);
   }
 
   /**
@@ -106,6 +227,7 @@ export class PostHogReplicate extends ReplicateOriginal {
    *
    * @param model - Model identifier (e.g., "openai/clip" or "owner/name:version")
    * @param options - Run options including input and PostHog tracking options
+   * @param progress - Optional callback receiving the prediction as it's updated
    * @returns The model output
    *
    * @example
@@ -117,51 +239,20 @@ export class PostHogReplicate extends ReplicateOriginal {
    * });
    * ```
    */
-  override async run(model: `${string}/${string}` | `${string}/${string}:${string}`, options: RunOptions): Promise<object> {
-    const { posthogParams, replicateOptions } = extractPostHogParams(options);
-
-    const getElapsed = createTimer();
-    let output: object | undefined;
-    let isError = false;
-    let error: unknown;
-    let httpStatus = 200;
-
-    try {
-      // Call parent class run method
-      output = await super.run(model, replicateOptions as Parameters<ReplicateOriginal["run"]>[1]);
-    } catch (err) {
-      isError = true;
-      error = err;
-      httpStatus = this.extractHttpStatus(err) || 500;
-      throw err;
-    } finally {
-      const latency = getElapsed();
-
-      captureGeneration(this.posthog, {
-        model,
-        latency,
-        httpStatus,
-        isError,
-        error,
-        input: replicateOptions.input,
-        output,
-        distinctId: posthogParams.posthogDistinctId,
-        traceId: posthogParams.posthogTraceId,
-        customProperties: posthogParams.posthogProperties,
-        groups: posthogParams.posthogGroups,
-        privacyMode: posthogParams.posthogPrivacyMode,
-        stream: false,
-      });
-    }
-
-    return output as object;
+  override run<M extends ModelIdentifier>(
+    model: M,
+    options: RunOptions<M>,
+    progress?: (prediction: Prediction) => void
+  ): Promise<ModelOutput<M>> {
+    return this.instrumentation.run(model, options, progress);
   }
 
   /**
    * Stream output from a model
    *
    * This method streams the model output as Server-Sent Events. The PostHog
-   * event is captured when the stream completes or errors.
+   * event is captured when the stream completes, errors, or the consumer stops
+   * iterating early, and includes time to first token and throughput metrics.
    *
    * @param model - Model identifier (e.g., "meta/llama-2-70b-chat")
    * @param options - Stream options including input and PostHog tracking options
@@ -179,208 +270,69 @@ export class PostHogReplicate extends ReplicateOriginal {
    * }
    * ```
    */
-  override async *stream(
-    model: `${string}/${string}` | `${string}/${string}:${string}`,
-    options: StreamOptions
+  override stream<M extends ModelIdentifier>(
+    model: M,
+    options: StreamOptions<M>
   ): AsyncGenerator<{ event: string; data: string; id?: string }> {
-    const { posthogParams, replicateOptions } = extractPostHogParams(options);
-
-    const getElapsed = createTimer();
-    let collectedOutput = "";
-    let isError = false;
-    let error: unknown;
-    let httpStatus = 200;
-
-    try {
-      const stream = super.stream(model, replicateOptions);
-
-      for await (const event of stream) {
-        // Collect output for tracking
-        if (event.event === "output") {
-          collectedOutput += event.data;
-        }
-        yield event;
-      }
-    } catch (err) {
-      isError = true;
-      error = err;
-      httpStatus = this.extractHttpStatus(err) || 500;
-      throw err;
-    } finally {
-      const latency = getElapsed();
-
-      captureGeneration(this.posthog, {
-        model,
-        latency,
-        httpStatus,
-        isError,
-        error,
-        input: replicateOptions.input,
-        output: collectedOutput || undefined,
-        distinctId: posthogParams.posthogDistinctId,
-        traceId: posthogParams.posthogTraceId,
-        customProperties: posthogParams.posthogProperties,
-        groups: posthogParams.posthogGroups,
-        privacyMode: posthogParams.posthogPrivacyMode,
-        stream: true,
-      });
-    }
+    return this.instrumentation.stream(model, options);
   }
 
   /**
-   * Create a prediction (async, doesn't wait for completion)
+   * Capture the completion event for a prediction delivered by a webhook
    *
-   * This method creates a prediction and returns immediately. The PostHog
-   * event is captured when the prediction is created, not when it completes.
+   * Used by createPostHogWebhookHandler(). Predictions that haven't reached a
+   * terminal status are ignored. Tracking options stored by create() are
+   * applied and then released.
    *
-   * @param options - Prediction options including model/version and input
-   * @returns The created prediction object
+   * @param prediction - The prediction payload from the webhook body
+   * @returns Whether an event was captured
    */
-  private async createPrediction(options: PredictionCreateOptions): Promise<unknown> {
-    const { posthogParams, replicateOptions } = extractPostHogParams(options);
-
-    const getElapsed = createTimer();
-    let prediction: Record<string, unknown> | undefined;
-    let isError = false;
-    let error: unknown;
-    let httpStatus = 200;
-
-    try {
-      const result = await this.originalPredictionsCreate(replicateOptions as Parameters<ReplicateOriginal["predictions"]["create"]>[0]);
-      prediction = result as unknown as Record<string, unknown>;
-
-      // Store tracking params for later predictions.get() calls
-      const predictionId = prediction?.id as string | undefined;
-      if (predictionId && Object.values(posthogParams).some(v => v !== undefined)) {
-        this.predictionTrackingParams.set(predictionId, posthogParams);
-      }
-
-      return result;
-    } catch (err) {
-      isError = true;
-      error = err;
-      httpStatus = this.extractHttpStatus(err) || 500;
-      throw err;
-    } finally {
-      const latency = getElapsed();
-
-      // For predictions.create, we track the creation, not completion
-      // The model is either from options.model or derived from options.version
-      const model = replicateOptions.model || replicateOptions.version || "unknown";
-
-      captureGeneration(this.posthog, {
-        model: String(model),
-        latency,
-        httpStatus,
-        isError,
-        error,
-        input: replicateOptions.input,
-        // Output is not available yet for async predictions
-        output: undefined,
-        distinctId: posthogParams.posthogDistinctId,
-        traceId: posthogParams.posthogTraceId,
-        customProperties: {
-          ...posthogParams.posthogProperties,
-          // Mark this as an async prediction creation
-          $ai_async_prediction: true,
-        },
-        groups: posthogParams.posthogGroups,
-        privacyMode: posthogParams.posthogPrivacyMode,
-        predictionId: prediction?.id as string | undefined,
-      });
-    }
+  captureWebhookPrediction(prediction: Prediction): Promise<boolean> {
+    return this.instrumentation.captureWebhookPrediction(prediction);
   }
 
   /**
-   * Get a prediction by ID
+   * Send feedback on a generation as a `$ai_feedback` event
+   *
+   * The event carries `$ai_generation_id` and the generation's trace ID and
+   * distinct ID, remembered for generations made through this process. Pass
+   * `traceId` and `distinctId` for generations made elsewhere, such as when
+   * the rating arrives in a later request handled by another server.
    *
-   * This method retrieves a prediction's current status. When the prediction
-   * is complete (status: "succeeded"), the PostHog event captures the output.
+   * @param generationId - ID of the generation, from `posthogOnGeneration` or set with `posthogGenerationId`
+   * @param options - The score, label and comment
    *
-   * @param predictionId - The prediction ID to retrieve
-   * @param options - Optional settings including PostHog tracking options
-   * @returns The prediction object
+   * @example
+   * ```typescript
+   * let generationId: string | undefined;
+   * const output = await replicate.run("stability-ai/sdxl", {
+   *   input: { prompt },
+   *   posthogDistinctId: 'user_123',
+   *   posthogOnGeneration: (generation) => { generationId = generation.generationId; },
+   * });
+   *
+   * replicate.feedback(generationId!, { score: 1, label: "thumbs_up", comment: "Great!" });
+   * ```
    */
-  private async getPrediction(predictionId: string, options?: PredictionGetOptions): Promise<unknown> {
-    // Merge stored params from create() with any provided options (provided options take precedence)
-    const storedParams = this.predictionTrackingParams.get(predictionId) || {};
-    const providedParams = options ? extractPostHogParams(options).posthogParams : {};
-    const posthogParams: PostHogTrackingOptions = { ...storedParams, ...providedParams };
-    const replicateOptions = options ? { signal: options.signal } : undefined;
-
-    const getElapsed = createTimer();
-    let prediction: Record<string, unknown> | undefined;
-    let isError = false;
-    let error: unknown;
-    let httpStatus = 200;
-
-    try {
-      const result = await this.originalPredictionsGet(predictionId, replicateOptions);
-      prediction = result as unknown as Record<string, unknown>;
-      return result;
-    } catch (err) {
-      isError = true;
-      error = err;
-      httpStatus = this.extractHttpStatus(err) || 500;
-      throw err;
-    } finally {
-      const latency = getElapsed();
-
-      // Extract model info from prediction if available
-      const model = prediction?.model as string || prediction?.version as string || "unknown";
-      const status = prediction?.status as string;
-      const isCompleted = status === "succeeded" || status === "failed" || status === "canceled";
-
-      // Clean up stored params when prediction completes
-      if (isCompleted) {
-        this.predictionTrackingParams.delete(predictionId);
-      }
-
-      captureGeneration(this.posthog, {
-        model: String(model),
-        latency,
-        httpStatus,
-        isError: isError || status === "failed",
-        error: error || (status === "failed" ? prediction?.error : undefined),
-        input: prediction?.input,
-        // Only include output if prediction completed successfully
-        output: status === "succeeded" ? prediction?.output : undefined,
-        distinctId: posthogParams.posthogDistinctId,
-        traceId: posthogParams.posthogTraceId,
-        customProperties: {
-          ...posthogParams.posthogProperties,
-          $ai_prediction_status: status,
-          $ai_prediction_get: true,
-          $ai_prediction_completed: isCompleted,
-        },
-        groups: posthogParams.posthogGroups,
-        privacyMode: posthogParams.posthogPrivacyMode,
-        predictionId,
-      });
-    }
+  feedback(generationId: string, options: FeedbackOptions): void {
+    this.instrumentation.feedback(generationId, options);
   }
 
   /**
-   * Extract HTTP status code from an error
+   * Send an evaluation result for a generation as a `$ai_metric` event
+   *
+   * Linked to the generation the same way as feedback().
+   *
+   * @param generationId - ID of the generation, from `posthogOnGeneration` or set with `posthogGenerationId`
+   * @param options - Name and value of the metric
+   *
+   * @example
+   * ```typescript
+   * replicate.captureMetric(generationId, { name: "clip_score", value: 0.31 });
+   * ```
    */
-  private extractHttpStatus(err: unknown): number | undefined {
-    if (err && typeof err === "object") {
-      const errorObj = err as Record<string, unknown>;
-      if (typeof errorObj.status === "number") {
-        return errorObj.status;
-      }
-      if (typeof errorObj.statusCode === "number") {
-        return errorObj.statusCode;
-      }
-      // Replicate errors often have a response object
-      if (errorObj.response && typeof errorObj.response === "object") {
-        const response = errorObj.response as Record<string, unknown>;
-        if (typeof response.status === "number") {
-          return response.status;
-        }
-      }
-    }
-    return undefined;
+  captureMetric(generationId: string, options: MetricOptions): void {
+    this.instrumentation.captureMetric(generationId, options);
   }
 }
 
@@ -0,0 +1,1584 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { randomUUID } from "node:crypto";
+import type ReplicateOriginal from "replicate";
+import type { Prediction } from "replicate";
+import {
+  captureFeedback,
+  captureGeneration,
+  captureMetric,
+  captureSpan,
+  captureTrace,
+  createTimer,
+  extractHttpStatus,
+  extractPredictionTimings,
+  isTerminalStatus,
+} from "./capture.js";
+import { DEFAULT_MODEL_PRICING, calculateCost, extractUsage, resolvePricing } from "./pricing.js";
+import { InMemoryPredictionTrackingStore } from "./store.js";
+import { maskString, mergeRedactOptions } from "./redact.js";
+import { contextToTrackingOptions, getPostHogContext, withPostHogContext } from "./context.js";
+import { TraceSpan } from "./trace.js";
+import { GenerationAggregator } from "./aggregate.js";
+import { FanOutSink, PostHogSink } from "./sinks.js";
+import { resolveRetryPolicy, withRetries } from "./retry.js";
+import { ModelResolver, resolveModelEntry } from "./models.js";
+import { GenerationRegistry } from "./generations.js";
+import { QuotaExceededError, QuotaGuard, runInQuotaScope } from "./quota.js";
+import { ResponseCache } from "./cache.js";
+import type { FailedAttempt, RetryState } from "./retry.js";
+import type { GenerationRecord } from "./generations.js";
+import type {
+  AsyncPredictionCaptureMode,
+  CachedResponse,
+  CaptureOptions,
+  EvaluationCaptureOptions,
+  FeedbackOptions,
+  GenerationReference,
+  MetricOptions,
+  ModelPricing,
+  OutputFormatter,
+  OutputValidator,
+  ModelIdentifier,
+  ModelOutput,
+  PredictionTrackingState,
+  PredictionTrackingStore,
+  PredictionUsage,
+  RedactOptions,
+  InstrumentationOptions,
+  RunOptions,
+  SamplingOptions,
+  AggregationOptions,
+  StreamOptions,
+  PredictionCreateOptions,
+  PredictionGetOptions,
+  PredictionCancelOptions,
+  DeploymentPredictionCreateOptions,
+  PostHogTrackingOptions,
+  RetryOptions,
+  LogCaptureOptions,
+  TrackingContext,
+  TelemetrySink,
+} from "./types.js";
+
+/**
+ * HTTP status reported for requests the client aborted, as nginx reports
+ * a client closing the connection
+ */
+const CLIENT_CLOSED_REQUEST_STATUS = 499;
+
+/**
+ * HTTP status reported for calls rejected by a quota limit
+ */
+const TOO_MANY_REQUESTS_STATUS = 429;
+
+/**
+ * Set while run() or stream() calls the client's original method, so the
+ * predictions.create(), get() and cancel() calls the SDK makes inside it
+ * aren't captured as generations of their own, including completion events
+ */
+const internalCallScope = new AsyncLocalStorage<InternalCall>();
+
+/**
+ * A run() or stream() call, as seen by the SDK calls made inside it
+ */
+interface InternalCall {
+  /** Sends the call's predictions.create() under the call's retry policy */
+  retryCreate(create: () => Promise<unknown>): Promise<unknown>;
+}
+
+/**
+ * Extracts PostHog tracking options from combined options object
+ * Returns the PostHog params, merged over any defaults, and the remaining Replicate options
+ */
+function extractPostHogParams<T extends PostHogTrackingOptions>(
+  options: T,
+  defaults?: PostHogTrackingOptions
+): {
+  posthogParams: PostHogTrackingOptions;
+  replicateOptions: Omit<T, keyof PostHogTrackingOptions>;
+} {
+  const {
+    posthogDistinctId,
+    posthogTraceId,
+    posthogParentId,
+    posthogProperties,
+    posthogGroups,
+    posthogPrivacyMode,
+    posthogRedact,
+    ...replicateOptions
+  } = options;
+
+  return {
+    posthogParams: mergeTrackingOptions(defaults, {
+      posthogDistinctId,
+      posthogTraceId,
+      posthogParentId,
+      posthogProperties,
+      posthogGroups,
+      posthogPrivacyMode,
+      posthogRedact,
+    }),
+    replicateOptions: replicateOptions as Omit<T, keyof PostHogTrackingOptions>,
+  };
+}
+
+/**
+ * Merges tracking options over a base set of options
+ * Values set in overrides win; properties, groups and redaction rules are merged key by key
+ */
+function mergeTrackingOptions(
+  base: PostHogTrackingOptions | undefined,
+  overrides: PostHogTrackingOptions
+): PostHogTrackingOptions {
+  if (!base) {
+    return overrides;
+  }
+  return {
+    posthogDistinctId: overrides.posthogDistinctId ?? base.posthogDistinctId,
+    posthogTraceId: overrides.posthogTraceId ?? base.posthogTraceId,
+    posthogParentId: overrides.posthogParentId ?? base.posthogParentId,
+    posthogProperties: base.posthogProperties || overrides.posthogProperties
+      ? { ...base.posthogProperties, ...overrides.posthogProperties }
+      : undefined,
+    posthogGroups: base.posthogGroups || overrides.posthogGroups
+      ? { ...base.posthogGroups, ...overrides.posthogGroups }
+      : undefined,
+    posthogPrivacyMode: overrides.posthogPrivacyMode ?? base.posthogPrivacyMode,
+    posthogRedact: mergeRedactOptions(base.posthogRedact, overrides.posthogRedact),
+  };
+}
+
+/**
+ * Whether an error was caused by aborting the request through an AbortSignal
+ */
+function isAbortError(err: unknown, signal: AbortSignal | undefined): boolean {
+  if (signal?.aborted) {
+    return true;
+  }
+  return typeof err === "object" && err !== null && (err as { name?: unknown }).name === "AbortError";
+}
+
+/**
+ * Yields an already-read first result followed by the rest of the stream
+ * Returning early from the result also returns the underlying stream
+ */
+async function* resumeStream<T>(first: IteratorResult<T>, stream: AsyncGenerator<T>): AsyncGenerator<T> {
+  if (first.done) {
+    return;
+  }
+  yield first.value;
+  yield* stream;
+}
+
+/**
+ * Tracking shared by the Replicate wrapper and instrumentReplicate()
+ *
+ * Holds the tracking configuration and the client's original methods, and
+ * implements the tracked versions of run(), stream() and the prediction
+ * methods. Original methods are called on the instrumented client, so
+ * requests keep going through its connection settings.
+ */
+export class ReplicateInstrumentation {
+  /** The client whose methods are instrumented; scoped clients from withContext() have their own */
+  private client: ReplicateOriginal;
+  private originalRun: ReplicateOriginal["run"];
+  private originalStream: ReplicateOriginal["stream"];
+  /** Where events are sent: the PostHog client, the configured sink, or both */
+  private sink: TelemetrySink;
+  private pricing: Record<string, ModelPricing>;
+  private originalPredictionsCreate: ReplicateOriginal["predictions"]["create"];
+  private originalPredictionsGet: ReplicateOriginal["predictions"]["get"];
+  private originalPredictionsCancel: ReplicateOriginal["predictions"]["cancel"];
+  private originalDeploymentPredictionsCreate: ReplicateOriginal["deployments"]["predictions"]["create"];
+  private asyncPredictionCapture: AsyncPredictionCaptureMode;
+  private capturePollSpans: boolean;
+  /** Tracking state recorded by create(), keyed by prediction ID */
+  private predictionTrackingStore: PredictionTrackingStore;
+  private predictionTrackingTtl: number;
+  private redact: RedactOptions | undefined;
+  /** Tracking options applied under the per-call options, set by trackingDefaults and withContext() */
+  private trackingDefaults: PostHogTrackingOptions | undefined;
+  private sampling: SamplingOptions | undefined;
+  /** Buffers generations into summary events when aggregation is enabled */
+  private aggregator: GenerationAggregator | undefined;
+  private retry: RetryOptions | undefined;
+  /** How prediction logs are captured; they aren't sent when undefined */
+  private logCapture: LogCaptureOptions | undefined;
+  private coldStartThreshold: number;
+  private outputFormatters: Record<string, OutputFormatter> | undefined;
+  private outputValidators: Record<string, OutputValidator> | undefined;
+  /** Normalizes model identifiers, shared by scoped copies so its caches are too */
+  private models: ModelResolver;
+  /** Recent generations, shared by scoped copies so feedback can be given through any of them */
+  private generations: GenerationRegistry;
+  /** Enforces the quota limits, shared by scoped copies so they count against the same limits */
+  private quota: QuotaGuard | undefined;
+  /** Caches run() outputs when the cache is enabled, shared by scoped copies */
+  private responseCache: ResponseCache | undefined;
+
+  /**
+   * @param client - The client to instrument
+   * @param options - Tracking options
+   * @param methods - The client's uninstrumented run() and stream(), when the client's own are already overridden
+   */
+  constructor(
+    client: ReplicateOriginal,
+    options: InstrumentationOptions,
+    methods: Pick<ReplicateOriginal, "run" | "stream"> = client
+  ) {
+    const {
+      posthog,
+      sink,
+      onSinkError,
+      pricing,
+      asyncPredictionCapture,
+      capturePollSpans,
+      predictionTrackingStore,
+      predictionTrackingTtl,
+      redact,
+      trackingDefaults,
+      sampling,
+      aggregation,
+      retry,
+      captureLogs,
+      coldStartThreshold,
+      outputFormatters,
+      modelVersionLookup,
+      outputValidators,
+      quota,
+      cache,
+    } = options;
+    const sinks = [...(posthog ? [new PostHogSink(posthog)] : []), ...(sink ? [sink] : [])];
+    if (!sinks[0]) {
+      throw new Error("posthog-replicate: pass a PostHog client as `posthog` or a TelemetrySink as `sink`");
+    }
+    // Always fanned out, so a failing sink is reported instead of failing the call
+    this.sink = new FanOutSink(sinks, onSinkError);
+    this.pricing = { ...DEFAULT_MODEL_PRICING, ...pricing };
+    this.asyncPredictionCapture = asyncPredictionCapture ?? "per-call";
+    this.capturePollSpans = capturePollSpans ?? false;
+    this.predictionTrackingStore = predictionTrackingStore ?? new InMemoryPredictionTrackingStore();
+    this.predictionTrackingTtl = predictionTrackingTtl ?? 24 * 60 * 60;
+    this.redact = redact;
+    this.trackingDefaults = trackingDefaults;
+    this.sampling = sampling;
+    this.retry = retry;
+    this.logCapture = captureLogs === true ? {} : captureLogs || undefined;
+    this.coldStartThreshold = coldStartThreshold ?? 5;
+    this.outputFormatters = outputFormatters;
+    this.outputValidators = outputValidators;
+    this.models = new ModelResolver(
+      modelVersionLookup === true
+        ? async (owner, name) => (await client.models.versions.list(owner, name)).results[0]?.id
+        : modelVersionLookup || undefined
+    );
+    this.generations = new GenerationRegistry();
+    this.quota = quota ? new QuotaGuard(quota) : undefined;
+    this.responseCache = cache ? new ResponseCache(cache === true ? {} : cache) : undefined;
+    this.aggregator = aggregation ? new GenerationAggregator(this.sink, aggregation) : undefined;
+    if (this.aggregator && posthog) {
+      this.aggregator.flushOnShutdown(posthog);
+    }
+
+    // Store references to the original methods before they are replaced
+    this.client = client;
+    this.originalRun = methods.run;
+    this.originalStream = methods.stream;
+    this.originalPredictionsCreate = client.predictions.create.bind(client.predictions);
+    this.originalPredictionsGet = client.predictions.get.bind(client.predictions);
+    this.originalPredictionsCancel = client.predictions.cancel.bind(client.predictions);
+    this.originalDeploymentPredictionsCreate = client.deployments.predictions.create.bind(client.deployments.predictions);
+  }
+
+  /**
+   * Create a copy of this instrumentation for a scoped client
+   *
+   * The copy shares everything but the client and its tracking defaults, which
+   * have the context merged over them.
+   *
+   * @param context - Tracking values to apply to every call
+   * @param client - The scoped client the copy tracks calls for
+   */
+  scoped(context: TrackingContext, client: ReplicateOriginal): ReplicateInstrumentation {
+    const scoped = Object.create(this) as ReplicateInstrumentation;
+    scoped.client = client;
+    scoped.trackingDefaults = mergeTrackingOptions(this.trackingDefaults, contextToTrackingOptions(context));
+    return scoped;
+  }
+
+  /**
+   * Tracked trace(); see PostHogReplicate.trace()
+   */
+  trace<T>(name: string, fn: (span: TraceSpan) => T | Promise<T>, context: TrackingContext = {}): Promise<T> {
+    const current = getPostHogContext();
+    if (current?.traceId && !context.traceId) {
+      return this.runSpan("span", name, {
+        traceId: current.traceId,
+        spanId: randomUUID(),
+        parentId: current.parentId ?? current.traceId,
+      }, context, fn);
+    }
+    const traceId = context.traceId ?? randomUUID();
+    return this.runSpan("trace", name, { traceId, spanId: traceId }, context, fn);
+  }
+
+  /**
+   * Run a function as a trace or span and capture its event when it settles
+   *
+   * The function runs inside a tracking context whose parent ID is this
+   * span, so generations and child spans created in it link back here.
+   */
+  private runSpan<T>(
+    kind: "trace" | "span",
+    name: string,
+    ids: { traceId: string; spanId: string; parentId?: string },
+    context: TrackingContext,
+    fn: (span: TraceSpan) => T | Promise<T>
+  ): Promise<T> {
+    const span = new TraceSpan(name, ids.traceId, ids.spanId, (childName, childFn) =>
+      this.runSpan("span", childName, { traceId: ids.traceId, spanId: randomUUID(), parentId: ids.spanId }, {}, childFn)
+    );
+
+    return withPostHogContext({ ...context, traceId: ids.traceId, parentId: ids.spanId }, async () => {
+      const params = this.currentDefaults() ?? {};
+      const getElapsed = createTimer();
+      let isError = false;
+      let error: unknown;
+
+      try {
+        return await fn(span);
+      } catch (err) {
+        isError = true;
+        error = err;
+        throw err;
+      } finally {
+        const capture = kind === "trace" ? captureTrace : captureSpan;
+        capture(this.sink, {
+          name,
+          latency: getElapsed(),
+          isError,
+          error,
+          distinctId: params.posthogDistinctId,
+          traceId: ids.traceId,
+          spanId: kind === "span" ? ids.spanId : undefined,
+          parentId: ids.parentId,
+          inputState: span.input,
+          outputState: span.output,
+          customProperties: { ...params.posthogProperties, ...span.properties },
+          groups: params.posthogGroups,
+          privacyMode: params.posthogPrivacyMode,
+          redact: mergeRedactOptions(this.redact, params.posthogRedact),
+          sampling: this.sampling,
+        });
+      }
+    });
+  }
+
+  /**
+   * Point a client's predictions.create(), predictions.get(),
+   * predictions.cancel() and deployments.predictions.create() at the tracked
+   * versions
+   *
+   * Fresh objects are assigned so a client from withContext() doesn't change
+   * the methods of the client it was created from.
+   *
+   * @param target - The client, or a scoped client created from it
+   */
+  install(target: ReplicateOriginal): void {
+    const self = this;
+    const wrappedCreate = (options: PredictionCreateOptions) => self.createPrediction(options);
+    const wrappedGet = (predictionId: string, options?: PredictionGetOptions) => self.getPrediction(predictionId, options);
+    const wrappedCancel = (predictionId: string, options?: PredictionCancelOptions) => self.cancelPrediction(predictionId, options);
+    target.predictions = {
+      ...target.predictions,
+      create: wrappedCreate,
+      get: wrappedGet,
+      cancel: wrappedCancel,
+    } as unknown as ReplicateOriginal["predictions"];
+
+    // Wrap deployment predictions with the same tracking as predictions.create
+    const wrappedDeploymentCreate = (deploymentOwner: string, deploymentName: string, options: DeploymentPredictionCreateOptions) =>
+      self.createDeploymentPrediction(deploymentOwner, deploymentName, options);
+    target.deployments = {
+      ...target.deployments,
+      predictions: { ...target.deployments.predictions, create: wrappedDeploymentCreate },
+    } as unknown as ReplicateOriginal["deployments"];
+  }
+
+  /**
+   * Tracked run(); see PostHogReplicate.run()
+   */
+  async run<M extends ModelIdentifier>(
+    model: M,
+    options: RunOptions<M>,
+    progress?: (prediction: Prediction) => void
+  ): Promise<ModelOutput<M>> {
+    const {
+      posthogParams,
+      replicateOptions: { retry, cache, posthogGenerationId, posthogOnGeneration, ...replicateOptions },
+    } = extractPostHogParams(options, this.currentDefaults());
+    const generationId = posthogGenerationId ?? randomUUID();
+    const retryPolicy = resolveRetryPolicy(this.retry, retry);
+    const retryState: RetryState = { retryCount: 0 };
+
+    // Cache hits never reach Replicate, so they aren't counted against quotas
+    const cacheKey = this.responseCache && cache !== false
+      ? this.responseCache.key(await this.models.resolve(model), replicateOptions.input)
+      : undefined;
+    if (cacheKey) {
+      const cached = await this.readCache(cacheKey, replicateOptions.input, posthogParams, generationId, posthogOnGeneration);
+      if (cached) {
+        return cached.output as ModelOutput<M>;
+      }
+    }
+    await this.enforceQuota(model, replicateOptions.input, posthogParams, generationId, posthogOnGeneration);
+
+    const getElapsed = createTimer();
+    // Track the latest prediction so usage metrics can be read once it completes
+    let lastPrediction: Prediction | undefined;
+    let output: object | undefined;
+    let isError = false;
+    let canceled = false;
+    let error: unknown;
+    let httpStatus = 200;
+
+    // Only the request creating the prediction is retried; retrying the whole run would create another prediction
+    const internalCall: InternalCall = {
+      retryCreate: (create) => withRetries(create, {
+        policy: retryPolicy,
+        idempotent: false,
+        signal: replicateOptions.signal,
+        state: retryState,
+        onRetry: this.failedAttemptCapture(retryPolicy, model, replicateOptions.input, posthogParams),
+      }),
+    };
+
+    try {
+      // Call the client's original run method
+      output = await runInQuotaScope(() => internalCallScope.run(internalCall, () =>
+        this.originalRun.call(this.client, model, replicateOptions as Parameters<ReplicateOriginal["run"]>[1], (prediction) => {
+          lastPrediction = prediction;
+          internalCallScope.exit(() => progress?.(prediction));
+        })
+      ));
+    } catch (err) {
+      if (isAbortError(err, replicateOptions.signal)) {
+        canceled = true;
+        httpStatus = CLIENT_CLOSED_REQUEST_STATUS;
+      } else {
+        isError = true;
+        error = err;
+        httpStatus = extractHttpStatus(err) || 500;
+      }
+      throw err;
+    } finally {
+      const latency = getElapsed();
+      // Aborting a run that is polling cancels the prediction and resolves with its output
+      if (lastPrediction?.status === "canceled") {
+        canceled = true;
+        if (replicateOptions.signal?.aborted) {
+          httpStatus = CLIENT_CLOSED_REQUEST_STATUS;
+        }
+      }
+      const modelFailure = lastPrediction?.status === "failed";
+      const identifier = await this.models.resolve(model, lastPrediction?.version);
+      const usage = extractUsage(lastPrediction);
+
+      captureGeneration(this.sink, {
+        ...this.generationCaptureOptions(identifier, posthogParams),
+        latency,
+        httpStatus,
+        isError,
+        error,
+        canceled,
+        modelFailure,
+        logs: lastPrediction?.logs,
+        retryCount: retryPolicy && retryState.retryCount,
+        input: replicateOptions.input,
+        output,
+        customProperties: {
+          ...posthogParams.posthogProperties,
+          ...this.timingProperties(lastPrediction),
+          ...(cacheKey && { $ai_cache_hit: false }),
+        },
+        stream: false,
+        generationId,
+        usage,
+      });
+      this.recordGeneration(generationId, identifier, posthogParams, posthogOnGeneration);
+      await this.recordQuotaCost(identifier, posthogParams, usage);
+      if (cacheKey && !isError && !canceled) {
+        await this.responseCache!.set(cacheKey, { output, model: identifier });
+      }
+    }
+
+    return output as ModelOutput<M>;
+  }
+
+  /**
+   * Tracked stream(); see PostHogReplicate.stream()
+   */
+  async *stream<M extends ModelIdentifier>(
+    model: M,
+    options: StreamOptions<M>
+  ): AsyncGenerator<{ event: string; data: string; id?: string }> {
+    const {
+      posthogParams,
+      replicateOptions: { retry, posthogGenerationId, posthogOnGeneration, ...replicateOptions },
+    } = extractPostHogParams(options, this.currentDefaults());
+    const generationId = posthogGenerationId ?? randomUUID();
+    const retryPolicy = resolveRetryPolicy(this.retry, retry);
+    const retryState: RetryState = { retryCount: 0 };
+    await this.enforceQuota(model, replicateOptions.input, posthogParams, generationId, posthogOnGeneration);
+
+    const getElapsed = createTimer();
+    let collectedOutput = "";
+    let chunkCount = 0;
+    let firstOutputAt: number | undefined;
+    let lastOutputAt: number | undefined;
+    let doneAt: number | undefined;
+    let finished = false;
+    let opened = false;
+    let isError = false;
+    let canceled = false;
+    let modelFailure = false;
+    let error: unknown;
+    let httpStatus = 200;
+    let prediction: Prediction | undefined;
+
+    // Only the request creating the prediction is retried, so no output is ever repeated
+    const internalCall: InternalCall = {
+      retryCreate: async (create) => {
+        const created = await withRetries(create, {
+          policy: retryPolicy,
+          idempotent: false,
+          signal: replicateOptions.signal,
+          state: retryState,
+          onRetry: this.failedAttemptCapture(retryPolicy, model, replicateOptions.input, posthogParams),
+        });
+        prediction = created as Prediction;
+        return created;
+      },
+    };
+
+    try {
+      // The SDK creates the prediction before the first event, so reading it runs in the scope
+      const stream = this.originalStream.call(this.client, model, replicateOptions);
+      const first = await runInQuotaScope(() => internalCallScope.run(internalCall, () => stream.next()));
+
+      opened = true;
+
+      for await (const event of resumeStream(first, stream)) {
+        // Collect output and timings for tracking
+        if (event.event === "output") {
+          collectedOutput += event.data;
+          chunkCount++;
+          lastOutputAt = getElapsed();
+          firstOutputAt ??= lastOutputAt;
+        } else if (event.event === "done") {
+          doneAt = getElapsed();
+        }
+        yield event;
+      }
+      finished = true;
+    } catch (err) {
+      if (isAbortError(err, replicateOptions.signal)) {
+        canceled = true;
+        httpStatus = CLIENT_CLOSED_REQUEST_STATUS;
+      } else {
+        isError = true;
+        error = err;
+        httpStatus = extractHttpStatus(err) || 500;
+        // Once the stream is open, the client raises the model's error events as plain errors
+        modelFailure = opened && extractHttpStatus(err) === undefined && !(err instanceof TypeError);
+      }
+      throw err;
+    } finally {
+      const latency = getElapsed();
+      if (finished && prediction) {
+        prediction = await this.readFinishedPrediction(prediction);
+      }
+      const identifier = await this.models.resolve(model, prediction?.version);
+      const usage = extractUsage(prediction);
+
+      captureGeneration(this.sink, {
+        ...this.generationCaptureOptions(identifier, posthogParams),
+        latency,
+        httpStatus,
+        isError,
+        error,
+        canceled,
+        modelFailure,
+        logs: prediction?.logs,
+        retryCount: retryPolicy && retryState.retryCount,
+        input: replicateOptions.input,
+        output: collectedOutput || undefined,
+        customProperties: {
+          ...posthogParams.posthogProperties,
+          ...this.timingProperties(prediction),
+        },
+        stream: true,
+        predictionId: prediction?.id,
+        generationId,
+        streamMetrics: {
+          timeToFirstToken: firstOutputAt,
+          chunkCount,
+          // Each output event carries roughly one token for language models
+          tokensPerSecond:
+            firstOutputAt !== undefined && lastOutputAt !== undefined && lastOutputAt > firstOutputAt
+              ? (chunkCount - 1) / (lastOutputAt - firstOutputAt)
+              : undefined,
+          doneDelay: doneAt !== undefined && lastOutputAt !== undefined ? doneAt - lastOutputAt : undefined,
+          // Without an error, leaving the loop before the end means the consumer called return()
+          stoppedEarly: !finished && !isError && !canceled,
+        },
+        usage,
+      });
+      this.recordGeneration(generationId, identifier, posthogParams, posthogOnGeneration);
+      await this.recordQuotaCost(identifier, posthogParams, usage);
+    }
+  }
+
+  /**
+   * Create a prediction (async, doesn't wait for completion)
+   *
+   * This method creates a prediction and returns immediately. The PostHog
+   * event is captured when the prediction is created, not when it completes.
+   * In "completion" capture mode the event is deferred until a later get()
+   * observes a terminal status.
+   *
+   * @param options - Prediction options including model/version and input
+   * @returns The created prediction object
+   */
+  private async createPrediction(options: PredictionCreateOptions): Promise<unknown> {
+    // The SDK's own create() inside run() and stream() is captured, and retried, by the call that made it
+    const internalCall = internalCallScope.getStore();
+    if (internalCall) {
+      return internalCall.retryCreate(() =>
+        this.originalPredictionsCreate(options as Parameters<ReplicateOriginal["predictions"]["create"]>[0])
+      );
+    }
+    return this.trackCreate(options, undefined, (replicateOptions) =>
+      this.originalPredictionsCreate(replicateOptions as Parameters<ReplicateOriginal["predictions"]["create"]>[0])
+    );
+  }
+
+  /**
+   * Create a prediction on a deployment (async, doesn't wait for completion)
+   *
+   * Tracked the same way as predictions.create(), with an additional
+   * `$ai_deployment` property naming the deployment. Tracking options are
+   * linked to later predictions.get() calls for the returned prediction.
+   *
+   * @param deploymentOwner - The user or organization that owns the deployment
+   * @param deploymentName - The name of the deployment
+   * @param options - Prediction options including input and PostHog tracking options
+   * @returns The created prediction object
+   */
+  private async createDeploymentPrediction(
+    deploymentOwner: string,
+    deploymentName: string,
+    options: DeploymentPredictionCreateOptions
+  ): Promise<unknown> {
+    return this.trackCreate(options, `${deploymentOwner}/${deploymentName}`, (replicateOptions) =>
+      this.originalDeploymentPredictionsCreate(
+        deploymentOwner,
+        deploymentName,
+        replicateOptions as Parameters<ReplicateOriginal["deployments"]["predictions"]["create"]>[2]
+      )
+    );
+  }
+
+  /**
+   * Create a prediction on a model or deployment and capture the creation
+   *
+   * Shared by predictions.create() and deployments.predictions.create(). The
+   * prediction's tracking state is stored for later get() calls; a
+   * deployment's current model is only known once the prediction is created.
+   *
+   * @param options - Prediction options including PostHog tracking options
+   * @param deployment - The deployment as owner/name, when creating on one
+   * @param create - Sends the create request with the Replicate options
+   */
+  private async trackCreate(
+    options: PredictionCreateOptions | DeploymentPredictionCreateOptions,
+    deployment: string | undefined,
+    create: (replicateOptions: object) => Promise<unknown>
+  ): Promise<unknown> {
+    const {
+      posthogParams,
+      replicateOptions: { retry, posthogGenerationId, posthogOnGeneration, ...replicateOptions },
+    } = extractPostHogParams(options, this.currentDefaults());
+    const { model: requestedModel, version: requestedVersion } = replicateOptions as { model?: string; version?: string };
+    const target = deployment ?? (requestedModel || requestedVersion);
+    const generationId = posthogGenerationId ?? randomUUID();
+    const retryPolicy = resolveRetryPolicy(this.retry, retry);
+    const retryState: RetryState = { retryCount: 0 };
+
+    const trackingState: PredictionTrackingState = {
+      params: posthogParams,
+      createdAt: Date.now(),
+      ...(deployment ? { deployment } : { model: target }),
+      generationId,
+    };
+    await this.enforceQuota(
+      deployment ?? this.models.identify(requestedModel, requestedVersion),
+      replicateOptions.input,
+      posthogParams,
+      generationId,
+      posthogOnGeneration
+    );
+    const getElapsed = createTimer();
+    let prediction: Record<string, unknown> | undefined;
+    let isError = false;
+    let error: unknown;
+    let httpStatus = 200;
+
+    try {
+      const result = await withRetries(() => create(replicateOptions), {
+        policy: retryPolicy,
+        idempotent: false,
+        signal: replicateOptions.signal,
+        state: retryState,
+        onRetry: this.failedAttemptCapture(retryPolicy, target ?? "unknown", replicateOptions.input, posthogParams),
+      });
+      prediction = result as unknown as Record<string, unknown>;
+
+      // Store tracking state for later predictions.get() calls
+      await this.trackPrediction(prediction, trackingState);
+
+      return result;
+    } catch (err) {
+      isError = true;
+      error = err;
+      httpStatus = extractHttpStatus(err) || 500;
+      throw err;
+    } finally {
+      const latency = getElapsed();
+
+      // For predictions.create, we track the creation, not completion
+      // The created prediction names the model even when only a version or deployment was passed
+      const model = this.models.identify(
+        (prediction?.model as string | undefined) || requestedModel || deployment,
+        (prediction?.version as string | undefined) || requestedVersion
+      );
+
+      if (!isError && this.asyncPredictionCapture === "completion") {
+        // Predictions created with `wait` may already be finished
+        if (prediction && isTerminalStatus(prediction.status)) {
+          await this.capturePredictionCompletion(prediction, posthogParams, trackingState, latency);
+        }
+      } else {
+        captureGeneration(this.sink, {
+          ...this.generationCaptureOptions(model, posthogParams),
+          latency,
+          httpStatus,
+          isError,
+          error,
+          logs: prediction?.logs as string | undefined,
+          retryCount: retryPolicy && retryState.retryCount,
+          input: replicateOptions.input,
+          // Output is not available yet for async predictions
+          output: undefined,
+          customProperties: {
+            ...posthogParams.posthogProperties,
+            // Mark this as an async prediction creation
+            $ai_async_prediction: true,
+            ...(deployment && { $ai_deployment: deployment }),
+            ...this.timingProperties(prediction),
+          },
+          predictionId: prediction?.id as string | undefined,
+          generationId,
+          // Predictions created with `wait` may already be complete and carry metrics
+          usage: extractUsage(prediction),
+        });
+      }
+      // In "completion" mode the ID is reused by the event sent once the prediction finishes
+      this.recordGeneration(generationId, model, posthogParams, posthogOnGeneration);
+    }
+  }
+
+  /**
+   * Get a prediction by ID
+   *
+   * This method retrieves a prediction's current status. When the prediction
+   * is complete (status: "succeeded"), the PostHog event captures the output.
+   * In "completion" capture mode only the poll that observes a terminal status
+   * sends a `$ai_generation` event; earlier polls are dropped or sent as spans.
+   *
+   * @param predictionId - The prediction ID to retrieve
+   * @param options - Optional settings including PostHog tracking options
+   * @returns The prediction object
+   */
+  private async getPrediction(predictionId: string, options?: PredictionGetOptions): Promise<unknown> {
+    // Polls made by run() are captured by the run() itself, in "completion" mode too
+    if (internalCallScope.getStore()) {
+      return this.originalPredictionsGet(predictionId, options);
+    }
+    // Merge stored params from create() with any provided options (provided options take precedence)
+    const storedState = await this.readTrackingState(predictionId);
+    const storedParams = mergeTrackingOptions(this.currentDefaults(), storedState?.params || {});
+    const providedParams = options ? extractPostHogParams(options).posthogParams : {};
+    const posthogParams = mergeTrackingOptions(storedParams, providedParams);
+    const replicateOptions = options ? { signal: options.signal } : undefined;
+    const retryPolicy = resolveRetryPolicy(this.retry, options?.retry);
+    const retryState: RetryState = { retryCount: 0 };
+
+    const getElapsed = createTimer();
+    let prediction: Record<string, unknown> | undefined;
+    let isError = false;
+    let error: unknown;
+    let httpStatus = 200;
+
+    try {
+      // Reading a prediction is idempotent, so server errors are retried too
+      const result = await withRetries(() => this.originalPredictionsGet(predictionId, replicateOptions), {
+        policy: retryPolicy,
+        idempotent: true,
+        signal: options?.signal,
+        state: retryState,
+        onRetry: this.failedAttemptCapture(retryPolicy, storedState?.model ?? "unknown", undefined, posthogParams),
+      });
+      prediction = result as unknown as Record<string, unknown>;
+      return result;
+    } catch (err) {
+      isError = true;
+      error = err;
+      httpStatus = extractHttpStatus(err) || 500;
+      throw err;
+    } finally {
+      const latency = getElapsed();
+
+      // Extract model info from prediction if available
+      const model = this.models.identify(
+        (prediction?.model as string | undefined) || storedState?.model,
+        prediction?.version as string | undefined
+      );
+      const status = prediction?.status as string;
+      const isCompleted = isTerminalStatus(status);
+
+      if (this.asyncPredictionCapture === "completion") {
+        if (storedState?.completed) {
+          // The completion event was already sent by an earlier call or webhook
+        } else if (prediction && isCompleted) {
+          await this.completeTracking(predictionId, storedState);
+          await this.capturePredictionCompletion(prediction, posthogParams, storedState, latency);
+        } else if (this.capturePollSpans) {
+          captureSpan(this.sink, {
+            name: "prediction_poll",
+            latency,
+            isError,
+            error,
+            distinctId: posthogParams.posthogDistinctId,
+            traceId: posthogParams.posthogTraceId,
+            parentId: posthogParams.posthogParentId,
+            customProperties: {
+              $ai_prediction_id: predictionId,
+              $ai_prediction_status: status,
+            },
+            groups: posthogParams.posthogGroups,
+            sampling: this.sampling,
+          });
+        }
+      } else {
+        const deployment = storedState?.deployment ?? prediction?.deployment;
+
+        // Clean up stored params when prediction completes
+        if (isCompleted && storedState) {
+          await this.releaseTrackingState(predictionId);
+        }
+
+        captureGeneration(this.sink, {
+          ...this.generationCaptureOptions(model, posthogParams),
+          latency,
+          httpStatus,
+          isError: isError || status === "failed",
+          error: error || (status === "failed" ? prediction?.error : undefined),
+          canceled: status === "canceled",
+          modelFailure: status === "failed",
+          logs: prediction?.logs as string | undefined,
+          retryCount: retryPolicy && retryState.retryCount,
+          input: prediction?.input,
+          // Only include output if prediction completed successfully
+          output: status === "succeeded" ? prediction?.output : undefined,
+          customProperties: {
+            ...posthogParams.posthogProperties,
+            $ai_prediction_status: status,
+            $ai_prediction_get: true,
+            $ai_prediction_completed: isCompleted,
+            ...this.timingProperties(prediction),
+            ...(typeof deployment === "string" && { $ai_deployment: deployment }),
+          },
+          predictionId,
+          usage: extractUsage(prediction),
+        });
+
+        // Count the cost once, on the poll that released the stored state
+        if (isCompleted && storedState) {
+          await this.recordQuotaCost(model, posthogParams, extractUsage(prediction));
+        }
+      }
+    }
+  }
+
+  /**
+   * Cancel a prediction
+   *
+   * Captures the cancellation as a `$ai_generation` event with `$ai_canceled`
+   * set, attributed to the caller's distinct ID and linked to the tracking
+   * options stored by create(). `$ai_time_since_create` gives the seconds
+   * between create() and the cancellation when the prediction was created by
+   * this client. In "completion" capture mode this is the prediction's single
+   * completion event.
+   *
+   * @param predictionId - The prediction ID to cancel
+   * @param options - Optional settings including PostHog tracking options
+   * @returns The canceled prediction object
+   */
+  private async cancelPrediction(predictionId: string, options?: PredictionCancelOptions): Promise<unknown> {
+    // An aborted run() cancels its prediction itself and captures the cancellation
+    if (internalCallScope.getStore()) {
+      return this.originalPredictionsCancel(predictionId, options);
+    }
+    const storedState = await this.readTrackingState(predictionId);
+    const storedParams = mergeTrackingOptions(storedState?.params, this.currentDefaults() || {});
+    const providedParams = options ? extractPostHogParams(options).posthogParams : {};
+    // Unlike get(), the caller's context wins over the creator's so the event names who canceled
+    const posthogParams = mergeTrackingOptions(storedParams, providedParams);
+    const replicateOptions = options ? { signal: options.signal } : undefined;
+    const retryPolicy = resolveRetryPolicy(this.retry, options?.retry);
+    const retryState: RetryState = { retryCount: 0 };
+
+    const getElapsed = createTimer();
+    let prediction: Record<string, unknown> | undefined;
+    let isError = false;
+    let error: unknown;
+    let httpStatus = 200;
+
+    try {
+      const result = await withRetries(() => this.originalPredictionsCancel(predictionId, replicateOptions), {
+        policy: retryPolicy,
+        idempotent: true,
+        signal: options?.signal,
+        state: retryState,
+        onRetry: this.failedAttemptCapture(retryPolicy, storedState?.model ?? "unknown", undefined, posthogParams),
+      });
+      prediction = result as unknown as Record<string, unknown>;
+      return result;
+    } catch (err) {
+      isError = true;
+      error = err;
+      httpStatus = extractHttpStatus(err) || 500;
+      throw err;
+    } finally {
+      const latency = getElapsed();
+      const status = prediction?.status as string | undefined;
+      const cancelProperties = {
+        ...posthogParams.posthogProperties,
+        $ai_prediction_cancel: true,
+        ...(storedState && { $ai_time_since_create: (Date.now() - storedState.createdAt) / 1000 }),
+      };
+
+      if (!isError && prediction && this.asyncPredictionCapture === "completion") {
+        if (!storedState?.completed) {
+          await this.completeTracking(predictionId, storedState);
+          await this.capturePredictionCompletion(
+            prediction,
+            { ...posthogParams, posthogProperties: cancelProperties },
+            storedState,
+            latency
+          );
+        }
+      } else {
+        if (!isError && storedState) {
+          await this.releaseTrackingState(predictionId);
+        }
+        const model = this.models.identify(
+          (prediction?.model as string | undefined) || storedState?.model,
+          prediction?.version as string | undefined
+        );
+        const deployment = storedState?.deployment ?? prediction?.deployment;
+
+        captureGeneration(this.sink, {
+          ...this.generationCaptureOptions(model, posthogParams),
+          latency,
+          httpStatus,
+          isError,
+          error,
+          canceled: status === "canceled",
+          logs: prediction?.logs as string | undefined,
+          retryCount: retryPolicy && retryState.retryCount,
+          input: prediction?.input,
+          customProperties: {
+            ...cancelProperties,
+            $ai_prediction_status: status,
+            ...this.timingProperties(prediction),
+            ...(typeof deployment === "string" && { $ai_deployment: deployment }),
+          },
+          predictionId,
+          usage: extractUsage(prediction),
+        });
+      }
+    }
+  }
+
+  /**
+   * Capture the completion event for a prediction delivered by a webhook
+   * See PostHogReplicate.captureWebhookPrediction()
+   */
+  async captureWebhookPrediction(prediction: Prediction): Promise<boolean> {
+    if (!isTerminalStatus(prediction.status)) {
+      return false;
+    }
+    const state = await this.readTrackingState(prediction.id);
+    if (state?.completed) {
+      return false;
+    }
+    await this.completeTracking(prediction.id, state);
+    const posthogParams = mergeTrackingOptions(this.currentDefaults(), state?.params || {});
+    const { totalTime } = extractPredictionTimings(prediction);
+
+    await this.capturePredictionCompletion(
+      prediction as unknown as Record<string, unknown>,
+      { ...posthogParams, posthogProperties: { ...posthogParams.posthogProperties, $ai_webhook: true } },
+      state,
+      totalTime ?? 0
+    );
+    return true;
+  }
+
+  /**
+   * Capture feedback on a generation; see PostHogReplicate.feedback()
+   */
+  feedback(generationId: string, options: FeedbackOptions): void {
+    const generation = this.generations.get(generationId);
+    const defaults = this.currentDefaults();
+    const redact = mergeRedactOptions(this.redact, defaults?.posthogRedact);
+    let comment = (generation?.privacyMode ?? defaults?.posthogPrivacyMode) ? undefined : options.comment;
+    if (comment !== undefined && redact) {
+      comment = maskString(comment, redact);
+    }
+
+    captureFeedback(this.sink, this.evaluationCaptureOptions(generationId, options, generation), {
+      score: options.score,
+      label: options.label,
+      comment,
+    });
+  }
+
+  /**
+   * Capture a metric for a generation; see PostHogReplicate.captureMetric()
+   */
+  captureMetric(generationId: string, options: MetricOptions): void {
+    const generation = this.generations.get(generationId);
+    captureMetric(this.sink, this.evaluationCaptureOptions(generationId, options, generation), {
+      name: options.name,
+      value: options.value,
+    });
+  }
+
+  /**
+   * Who a feedback or metric event is attributed to
+   * Explicit options win over the generation's own IDs, which win over the current context
+   */
+  private evaluationCaptureOptions(
+    generationId: string,
+    options: { distinctId?: string; traceId?: string; properties?: Record<string, unknown> },
+    generation: GenerationRecord | undefined
+  ): EvaluationCaptureOptions {
+    const defaults = this.currentDefaults();
+    return {
+      generationId,
+      model: generation?.model,
+      distinctId: options.distinctId ?? generation?.distinctId ?? defaults?.posthogDistinctId,
+      traceId: options.traceId ?? generation?.traceId,
+      customProperties: options.properties,
+      groups: generation?.groups ?? defaults?.posthogGroups,
+      sampling: this.sampling,
+    };
+  }
+
+  /**
+   * Options shared by every `$ai_generation` event of a call
+   *
+   * Applies the call's tracking options, the client's redaction, sampling,
+   * aggregation, log capture and pricing, and the formatter and validator
+   * registered for the model. Calls adding properties of their own spread
+   * the tracking properties under them.
+   */
+  private generationCaptureOptions(
+    model: string,
+    posthogParams: PostHogTrackingOptions
+  ): Omit<CaptureOptions, "latency" | "httpStatus" | "isError"> {
+    return {
+      model,
+      distinctId: posthogParams.posthogDistinctId,
+      traceId: posthogParams.posthogTraceId,
+      parentId: posthogParams.posthogParentId,
+      customProperties: posthogParams.posthogProperties,
+      groups: posthogParams.posthogGroups,
+      privacyMode: posthogParams.posthogPrivacyMode,
+      redact: mergeRedactOptions(this.redact, posthogParams.posthogRedact),
+      sampling: this.sampling,
+      aggregator: this.aggregator,
+      logCapture: this.logCapture,
+      pricing: resolvePricing(model, this.pricing),
+      outputFormatter: resolveModelEntry(model, this.outputFormatters),
+      outputValidator: resolveModelEntry(model, this.outputValidators),
+    };
+  }
+
+  /**
+   * Read a streamed prediction once its stream has finished, for its metrics and timings
+   * A failed read keeps the prediction as created, so the stream is captured without them
+   */
+  private async readFinishedPrediction(prediction: Prediction): Promise<Prediction> {
+    try {
+      return await this.originalPredictionsGet(prediction.id);
+    } catch {
+      return prediction;
+    }
+  }
+
+  /**
+   * Look up a run() call in the response cache
+   *
+   * A hit is captured as a generation with `$ai_cache_hit: true`, the
+   * latency of the lookup and no usage or cost, since Replicate wasn't called.
+   */
+  private async readCache(
+    key: string,
+    input: unknown,
+    posthogParams: PostHogTrackingOptions,
+    generationId: string,
+    onGeneration: ((generation: GenerationReference) => void) | undefined
+  ): Promise<CachedResponse | undefined> {
+    const getElapsed = createTimer();
+    const cached = await this.responseCache!.get(key);
+    if (!cached) {
+      return undefined;
+    }
+
+    captureGeneration(this.sink, {
+      ...this.generationCaptureOptions(cached.model, posthogParams),
+      latency: getElapsed(),
+      httpStatus: 200,
+      isError: false,
+      input,
+      output: cached.output,
+      customProperties: {
+        ...posthogParams.posthogProperties,
+        $ai_cache_hit: true,
+      },
+      stream: false,
+      generationId,
+    });
+    this.recordGeneration(generationId, cached.model, posthogParams, onGeneration);
+    return cached;
+  }
+
+  /**
+   * Check the quota limits before a call, counting the call against them
+   *
+   * A rejected call is captured as an error generation, classified as
+   * `quota_exceeded`, and its QuotaExceededError rethrown.
+   */
+  private async enforceQuota(
+    model: string,
+    input: unknown,
+    posthogParams: PostHogTrackingOptions,
+    generationId: string,
+    onGeneration: ((generation: GenerationReference) => void) | undefined
+  ): Promise<void> {
+    if (!this.quota) {
+      return;
+    }
+    const getElapsed = createTimer();
+    const identifier = this.models.identify(model);
+    try {
+      await this.quota.acquire({
+        model: identifier,
+        distinctId: posthogParams.posthogDistinctId,
+        groups: posthogParams.posthogGroups,
+      });
+    } catch (err) {
+      if (err instanceof QuotaExceededError) {
+        captureGeneration(this.sink, {
+          ...this.generationCaptureOptions(identifier, posthogParams),
+          latency: getElapsed(),
+          httpStatus: TOO_MANY_REQUESTS_STATUS,
+          isError: true,
+          error: err,
+          input,
+          generationId,
+        });
+        this.recordGeneration(generationId, identifier, posthogParams, onGeneration);
+      }
+      throw err;
+    }
+  }
+
+  /**
+   * Count the estimated cost of a finished generation against the quota's spend limits
+   *
+   * The call has already reached Replicate and been billed, so a failing
+   * quota store leaves the cost uncounted rather than failing the call.
+   */
+  private async recordQuotaCost(
+    model: string,
+    posthogParams: PostHogTrackingOptions,
+    usage: PredictionUsage | undefined
+  ): Promise<void> {
+    const pricing = resolvePricing(model, this.pricing);
+    const cost = usage && pricing ? calculateCost(usage, pricing) : undefined;
+    if (!this.quota || !cost) {
+      return;
+    }
+    try {
+      await this.quota.recordCost(
+        { model, distinctId: posthogParams.posthogDistinctId, groups: posthogParams.posthogGroups },
+        cost.total
+      );
+    } catch {
+      // Leave the cost uncounted
+    }
+  }
+
+  /**
+   * Remember a generation for feedback() and captureMetric(), and report its ID to the caller
+   *
+   * The callback runs as the call settles, so an error it throws is ignored
+   * rather than replacing the call's output or error.
+   */
+  private recordGeneration(
+    generationId: string,
+    model: string,
+    posthogParams: PostHogTrackingOptions,
+    onGeneration: ((generation: GenerationReference) => void) | undefined
+  ): void {
+    this.generations.set(generationId, {
+      model,
+      traceId: posthogParams.posthogTraceId,
+      distinctId: posthogParams.posthogDistinctId,
+      groups: posthogParams.posthogGroups,
+      privacyMode: posthogParams.posthogPrivacyMode,
+    });
+    try {
+      onGeneration?.({
+        generationId,
+        traceId: posthogParams.posthogTraceId,
+        distinctId: posthogParams.posthogDistinctId,
+      });
+    } catch {
+      // The call's own outcome wins
+    }
+  }
+
+  /**
+   * Returns a callback that captures failed attempts as their own events
+   *
+   * Each retried attempt is sent as an error `$ai_generation` event with
+   * `$ai_retry_attempt` giving its attempt number. Returns undefined unless
+   * the policy enables `captureFailedAttempts`.
+   */
+  private failedAttemptCapture(
+    policy: RetryOptions | undefined,
+    model: string,
+    input: unknown,
+    posthogParams: PostHogTrackingOptions
+  ): ((attempt: FailedAttempt) => void) | undefined {
+    if (!policy?.captureFailedAttempts) {
+      return undefined;
+    }
+    return ({ error, attempt, latency }) => {
+      captureGeneration(this.sink, {
+        ...this.generationCaptureOptions(model, posthogParams),
+        latency,
+        httpStatus: extractHttpStatus(error) || 500,
+        isError: true,
+        error,
+        input,
+        customProperties: {
+          ...posthogParams.posthogProperties,
+          $ai_retry_attempt: attempt,
+        },
+      });
+    };
+  }
+
+  /**
+   * Replicate's own timings for a prediction, as event properties
+   *
+   * `$ai_queue_time` is known once the prediction has started and
+   * `$ai_predict_time` once it has finished. A prediction that queued for at
+   * least the cold start threshold is reported with `$ai_cold_start`, since
+   * long queues are mostly spent booting the model.
+   */
+  private timingProperties(prediction: unknown): Record<string, unknown> {
+    const { queueTime, predictTime } = extractPredictionTimings(prediction);
+    return {
+      ...(queueTime !== undefined && { $ai_queue_time: queueTime, $ai_cold_start: queueTime >= this.coldStartThreshold }),
+      ...(predictTime !== undefined && { $ai_predict_time: predictTime }),
+    };
+  }
+
+  /**
+   * Tracking options that apply under the per-call options
+   * The context from withPostHogContext() sits over the client's defaults
+   */
+  private currentDefaults(): PostHogTrackingOptions | undefined {
+    const context = getPostHogContext();
+    if (!context) {
+      return this.trackingDefaults;
+    }
+    return mergeTrackingOptions(this.trackingDefaults, contextToTrackingOptions(context));
+  }
+
+  /**
+   * Store tracking state for a newly created prediction
+   *
+   * In "per-call" mode state is only kept when there are tracking options to
+   * carry over, or quota limits to count the prediction's cost against;
+   * "completion" mode always needs the create time, and marks a prediction
+   * that already finished as completed since it is captured straight away.
+   * The prediction exists once this runs, so a failing store leaves it
+   * untracked rather than failing create().
+   */
+  private async trackPrediction(prediction: Record<string, unknown> | undefined, state: PredictionTrackingState): Promise<void> {
+    const predictionId = prediction?.id as string | undefined;
+    if (!predictionId) {
+      return;
+    }
+    if (this.asyncPredictionCapture === "completion") {
+      state = { ...state, completed: isTerminalStatus(prediction?.status) };
+    } else if (this.quota === undefined && !Object.values(state.params).some(v => v !== undefined)) {
+      return;
+    }
+    try {
+      await this.predictionTrackingStore.set(predictionId, state, this.predictionTrackingTtl);
+    } catch {
+      // Later calls for the prediction are captured untracked
+    }
+  }
+
+  /**
+   * Read the tracking state stored for a prediction
+   * A failing store counts as having none, so the call is captured untracked instead of failing
+   */
+  private async readTrackingState(predictionId: string): Promise<PredictionTrackingState | undefined> {
+    try {
+      return await this.predictionTrackingStore.get(predictionId);
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Remove the tracking state of a finished prediction
+   * A failing store leaves the state to expire instead of failing the call
+   */
+  private async releaseTrackingState(predictionId: string): Promise<void> {
+    try {
+      await this.predictionTrackingStore.delete(predictionId);
+    } catch {
+      // Left to expire
+    }
+  }
+
+  /**
+   * Record that a prediction's completion event is being sent
+   * In "completion" mode the state is kept, marked as completed, until the
+   * TTL expires so that later get(), cancel() and webhook calls don't send the
+   * event again; otherwise it is released.
+   */
+  private async completeTracking(predictionId: string, state: PredictionTrackingState | undefined): Promise<void> {
+    if (this.asyncPredictionCapture !== "completion") {
+      if (state) {
+        await this.releaseTrackingState(predictionId);
+      }
+      return;
+    }
+    try {
+      await this.predictionTrackingStore.set(
+        predictionId,
+        { params: {}, createdAt: Date.now(), ...state, completed: true },
+        this.predictionTrackingTtl
+      );
+    } catch {
+      // A later call may send the event again
+    }
+  }
+
+  /**
+   * Capture the single `$ai_generation` event for a finished prediction
+   *
+   * Latency is measured end to end from create() when the prediction was
+   * created by this client, falling back to the latency of the current call.
+   *
+   * @param prediction - The prediction in a terminal status
+   * @param posthogParams - Tracking options, already merged with the stored ones
+   * @param state - Tracking state recorded by create(), if any
+   * @param fallbackLatency - Latency to report when the create time is unknown
+   */
+  private async capturePredictionCompletion(
+    prediction: Record<string, unknown>,
+    posthogParams: PostHogTrackingOptions,
+    state: PredictionTrackingState | undefined,
+    fallbackLatency: number
+  ): Promise<void> {
+    const predictionId = prediction.id as string;
+
+    const status = prediction.status as string;
+    const model = this.models.identify(
+      (prediction.model as string | undefined) || state?.model,
+      prediction.version as string | undefined
+    );
+    const deployment = state?.deployment ?? prediction.deployment;
+    const usage = extractUsage(prediction);
+
+    captureGeneration(this.sink, {
+      ...this.generationCaptureOptions(model, posthogParams),
+      latency: state ? (Date.now() - state.createdAt) / 1000 : fallbackLatency,
+      httpStatus: 200,
+      isError: status === "failed",
+      error: status === "failed" ? prediction.error : undefined,
+      canceled: status === "canceled",
+      modelFailure: status === "failed",
+      logs: prediction.logs as string | undefined,
+      input: prediction.input,
+      output: status === "succeeded" ? prediction.output : undefined,
+      customProperties: {
+        ...posthogParams.posthogProperties,
+        $ai_async_prediction: true,
+        $ai_prediction_status: status,
+        $ai_prediction_completed: true,
+        ...this.timingProperties(prediction),
+        ...(typeof deployment === "string" && { $ai_deployment: deployment }),
+      },
+      predictionId,
+      generationId: state?.generationId,
+      usage,
+    });
+    await this.recordQuotaCost(model, posthogParams, usage);
+  }
+}
+
+/**
+ * A Replicate client instrumented by instrumentReplicate()
+ */
+export type InstrumentedReplicate<T extends ReplicateOriginal = ReplicateOriginal> = T & {
+  /** Run a model and wait for the output, accepting PostHog tracking options */
+  run<M extends ModelIdentifier>(
+    model: M,
+    options: RunOptions<M>,
+    progress?: (prediction: Prediction) => void
+  ): Promise<ModelOutput<M>>;
+  /** Stream output from a model, accepting PostHog tracking options */
+  stream<M extends ModelIdentifier>(
+    model: M,
+    options: StreamOptions<M>
+  ): AsyncGenerator<{ event: string; data: string; id?: string }>;
+  /** Run a multi-step pipeline as a trace; see PostHogReplicate.trace() */
+  trace<R>(name: string, fn: (span: TraceSpan) => R | Promise<R>, context?: TrackingContext): Promise<R>;
+  /** Create a client that applies the given tracking context to every call */
+  withContext(context: TrackingContext): InstrumentedReplicate<T>;
+  /** Capture the completion event for a prediction delivered by a webhook */
+  captureWebhookPrediction(prediction: Prediction): Promise<boolean>;
+  /** Send a `$ai_feedback` event for a generation; see PostHogReplicate.feedback() */
+  feedback(generationId: string, options: FeedbackOptions): void;
+  /** Send a `$ai_metric` event for a generation; see PostHogReplicate.captureMetric() */
+  captureMetric(generationId: string, options: MetricOptions): void;
+  /** Restore the client's original methods and stop tracking */
+  uninstrument(): void;
+};
+
+/**
+ * Methods added or replaced on an instrumented client, restored by uninstrument()
+ */
+const INSTRUMENTED_KEYS = [
+  "run",
+  "stream",
+  "predictions",
+  "deployments",
+  "trace",
+  "withContext",
+  "captureWebhookPrediction",
+  "feedback",
+  "captureMetric",
+  "uninstrument",
+] as const;
+
+/** Clients currently instrumented by instrumentReplicate() */
+const instrumentedClients = new WeakSet<object>();
+
+/**
+ * Add PostHog tracking to an existing Replicate client
+ *
+ * Tracks the same calls as the Replicate wrapper, for clients constructed
+ * elsewhere such as by a dependency injection container. The client is
+ * instrumented in place and returned; call `uninstrument()` on it to restore
+ * the original methods.
+ *
+ * @param client - The Replicate client to instrument
+ * @param options - Tracking options, the same as the wrapper's without the client settings
+ * @returns The same client, typed to accept tracking options
+ *
+ * @example
+ * ```typescript
+ * import Replicate from 'replicate';
+ * import { instrumentReplicate } from 'posthog-replicate';
+ *
+ * const replicate = instrumentReplicate(container.get(Replicate), { posthog });
+ * await replicate.run('openai/clip', { input, posthogDistinctId: 'user_123' });
+ *
+ * replicate.uninstrument();
+ * ```
+ */
+export function instrumentReplicate<T extends ReplicateOriginal>(
+  client: T,
+  options: InstrumentationOptions
+): InstrumentedReplicate<T> {
+  if (instrumentedClients.has(client)) {
+    throw new Error("posthog-replicate: this Replicate client is already instrumented");
+  }
+
+  const saved = INSTRUMENTED_KEYS.map((key) => [key, Object.getOwnPropertyDescriptor(client, key)] as const);
+  const instrumentation = new ReplicateInstrumentation(client, options);
+  const instrumented = client as InstrumentedReplicate<T>;
+  attachInstrumentedMethods(instrumented, instrumentation);
+
+  instrumented.uninstrument = () => {
+    for (const [key, descriptor] of saved) {
+      if (descriptor) {
+        Object.defineProperty(client, key, descriptor);
+      } else {
+        delete (client as Record<string, unknown>)[key];
+      }
+    }
+    instrumentedClients.delete(client);
+  };
+  instrumentedClients.add(client);
+  return instrumented;
+}
+
+/**
+ * Assigns the tracked methods to an instrumented client or one of its scoped clients
+ */
+function attachInstrumentedMethods<T extends ReplicateOriginal>(
+  target: InstrumentedReplicate<T>,
+  instrumentation: ReplicateInstrumentation
+): void {
+  instrumentation.install(target);
+  target.run = <M extends ModelIdentifier>(model: M, options: RunOptions<M>, progress?: (prediction: Prediction) => void) =>
+    instrumentation.run(model, options, progress);
+  target.stream = <M extends ModelIdentifier>(model: M, options: StreamOptions<M>) => instrumentation.stream(model, options);
+  target.trace = (name, fn, context) => instrumentation.trace(name, fn, context);
+  target.captureWebhookPrediction = (prediction) => instrumentation.captureWebhookPrediction(prediction);
+  target.feedback = (generationId, options) => instrumentation.feedback(generationId, options);
+  target.captureMetric = (generationId, options) => instrumentation.captureMetric(generationId, options);
+  target.withContext = (context) => {
+    const scoped = Object.create(target) as InstrumentedReplicate<T>;
+    attachInstrumentedMethods(scoped, instrumentation.scoped(context, scoped));
+    return scoped;
+  };
+}
@@ -0,0 +1,53 @@
+/**
+ * Map bounded to a maximum size, evicting the least recently used entries
+ *
+ * get() and set() mark an entry as the most recently used; the Map's
+ * insertion order tracks recency, so the first key is always the next to go.
+ */
+export class LruMap<K, V> {
+  private entries = new Map<K, V>();
+  private maxSize: number;
+
+  /**
+   * @param maxSize - Most entries kept before the least recently used are evicted
+   */
+  constructor(maxSize: number) {
+    this.maxSize = maxSize;
+  }
+
+  get(key: K): V | undefined {
+    const value = this.entries.get(key);
+    if (value !== undefined) {
+      // Re-insert so the Map's insertion order tracks recency
+      this.entries.delete(key);
+      this.entries.set(key, value);
+    }
+    return value;
+  }
+
+  /** Whether a key is stored, without marking it as used */
+  has(key: K): boolean {
+    return this.entries.has(key);
+  }
+
+  set(key: K, value: V): void {
+    this.entries.delete(key);
+    this.entries.set(key, value);
+    while (this.entries.size > this.maxSize) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) {
+        break;
+      }
+      this.entries.delete(oldest);
+    }
+  }
+
+  delete(key: K): void {
+    this.entries.delete(key);
+  }
+
+  /** Number of entries currently stored */
+  get size(): number {
+    return this.entries.size;
+  }
+}
@@ -0,0 +1,173 @@
+import { createHash } from "node:crypto";
+import type { MediaDescriptor } from "./types.js";
+import { isPlainObject } from "./objects.js";
+
+/**
+ * File signatures used to detect the mime type of inline binary data
+ * Each entry lists byte offsets and the bytes expected there
+ */
+const MAGIC_NUMBERS: Array<{ mimeType: string; signature: Array<[number, number[]]> }> = [
+  { mimeType: "image/png", signature: [[0, [0x89, 0x50, 0x4e, 0x47]]] },
+  { mimeType: "image/jpeg", signature: [[0, [0xff, 0xd8, 0xff]]] },
+  { mimeType: "image/gif", signature: [[0, [0x47, 0x49, 0x46, 0x38]]] },
+  { mimeType: "image/webp", signature: [[0, [0x52, 0x49, 0x46, 0x46]], [8, [0x57, 0x45, 0x42, 0x50]]] },
+  { mimeType: "audio/wav", signature: [[0, [0x52, 0x49, 0x46, 0x46]], [8, [0x57, 0x41, 0x56, 0x45]]] },
+  { mimeType: "audio/mpeg", signature: [[0, [0x49, 0x44, 0x33]]] },
+  { mimeType: "audio/mpeg", signature: [[0, [0xff, 0xfb]]] },
+  { mimeType: "audio/ogg", signature: [[0, [0x4f, 0x67, 0x67, 0x53]]] },
+  { mimeType: "audio/flac", signature: [[0, [0x66, 0x4c, 0x61, 0x43]]] },
+  { mimeType: "video/mp4", signature: [[4, [0x66, 0x74, 0x79, 0x70]]] },
+  { mimeType: "video/webm", signature: [[0, [0x1a, 0x45, 0xdf, 0xa3]]] },
+  { mimeType: "application/pdf", signature: [[0, [0x25, 0x50, 0x44, 0x46]]] },
+];
+
+/**
+ * Mime types for common file extensions in Replicate output URLs
+ */
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+  svg: "image/svg+xml",
+  wav: "audio/wav",
+  mp3: "audio/mpeg",
+  ogg: "audio/ogg",
+  flac: "audio/flac",
+  mp4: "video/mp4",
+  webm: "video/webm",
+  mov: "video/quicktime",
+  pdf: "application/pdf",
+  txt: "text/plain",
+  json: "application/json",
+  glb: "model/gltf-binary",
+};
+
+const DATA_URI_PATTERN = /^data:([^;,]*)((?:;[^;,]*)*),/;
+
+/**
+ * Replaces media values with compact descriptors
+ *
+ * Buffers, typed arrays, ArrayBuffers, Blobs, base64 data URIs, FileOutput
+ * objects and other ReadableStreams are replaced, at any depth, with a
+ * MediaDescriptor giving the mime type, byte size and SHA-256 hash where they
+ * can be determined without consuming a stream, and the URL when there is
+ * one. Inline binary data is never kept.
+ *
+ * @param value - A model input or output
+ * @returns A copy with media values replaced; the original value is never modified
+ */
+export function summarizeMedia(value: unknown): unknown {
+  if (typeof value === "string") {
+    return value.startsWith("data:") ? describeDataUri(value) ?? value : value;
+  }
+  if (typeof value !== "object" || value === null) {
+    return value;
+  }
+  if (value instanceof URL) {
+    return value.toString();
+  }
+  if (value instanceof ArrayBuffer) {
+    return describeBytes(new Uint8Array(value));
+  }
+  if (ArrayBuffer.isView(value)) {
+    return describeBytes(new Uint8Array(value.buffer, value.byteOffset, value.byteLength));
+  }
+  if (typeof Blob !== "undefined" && value instanceof Blob) {
+    return describeBlob(value);
+  }
+  if (isFileOutput(value)) {
+    return describeUrl(value.url().toString());
+  }
+  if (typeof ReadableStream !== "undefined" && value instanceof ReadableStream) {
+    // The stream can only be read once, so nothing more is known without consuming it
+    return { type: "media" } satisfies MediaDescriptor;
+  }
+  if (Array.isArray(value)) {
+    return value.map(summarizeMedia);
+  }
+
+  if (isPlainObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, summarizeMedia(item)]));
+  }
+  return value;
+}
+
+/**
+ * Whether a value is a Replicate FileOutput (a ReadableStream with url() and blob())
+ */
+function isFileOutput(value: object): value is { url(): URL | string } {
+  const candidate = value as Record<string, unknown>;
+  return typeof candidate.url === "function" && typeof candidate.blob === "function";
+}
+
+function describeBytes(bytes: Uint8Array, mimeType?: string): MediaDescriptor {
+  return {
+    type: "media",
+    mime_type: mimeType || sniffMimeType(bytes),
+    size: bytes.byteLength,
+    sha256: createHash("sha256").update(bytes).digest("hex"),
+  };
+}
+
+function describeBlob(blob: Blob): MediaDescriptor {
+  // Reading a Blob is asynchronous, so its hash isn't available here
+  const descriptor: MediaDescriptor = {
+    type: "media",
+    size: blob.size,
+  };
+  if (blob.type) {
+    descriptor.mime_type = blob.type;
+  }
+  const name = (blob as Blob & { name?: unknown }).name;
+  if (typeof name === "string") {
+    descriptor.name = name;
+  }
+  return descriptor;
+}
+
+function describeDataUri(uri: string): MediaDescriptor | undefined {
+  const match = DATA_URI_PATTERN.exec(uri);
+  if (!match) {
+    return undefined;
+  }
+  const [header, mimeType, parameters] = match;
+  const data = uri.slice(header.length);
+  const bytes = parameters?.split(";").includes("base64")
+    ? Buffer.from(data, "base64")
+    : Buffer.from(percentDecode(data), "utf8");
+  return describeBytes(bytes, mimeType || undefined);
+}
+
+/**
+ * Decodes the percent-encoded data of a data URI
+ * Data with stray "%" signs, such as "50% off", is used as it is
+ */
+function percentDecode(data: string): string {
+  try {
+    return decodeURIComponent(data);
+  } catch {
+    return data;
+  }
+}
+
+/**
+ * Describes the media at a URL, with the mime type implied by its file extension
+ */
+export function describeUrl(url: string): MediaDescriptor {
+  const descriptor: MediaDescriptor = { type: "media", url };
+  const extension = /\.([A-Za-z0-9]+)(?:[?#]|$)/.exec(url)?.[1]?.toLowerCase();
+  const mimeType = extension ? EXTENSION_MIME_TYPES[extension] : undefined;
+  if (mimeType) {
+    descriptor.mime_type = mimeType;
+  }
+  return descriptor;
+}
+
+function sniffMimeType(bytes: Uint8Array): string {
+  const match = MAGIC_NUMBERS.find(({ signature }) =>
+    signature.every(([offset, expected]) => expected.every((byte, i) => bytes[offset + i] === byte))
+  );
+  return match?.mimeType ?? "application/octet-stream";
+}
@@ -0,0 +1,168 @@
+import type { ModelVersionLookup } from "./types.js";
+import { LruMap } from "./lru.js";
+
+const VERSION_HASH_PATTERN = /^[0-9a-f]{64}$/;
+
+/**
+ * How long looked-up model versions are kept before they are looked up again
+ */
+const LOOKUP_TTL_MS = 60 * 60 * 1000;
+
+/**
+ * Most version hashes remembered for resolving bare hashes back to their model
+ */
+const MAX_KNOWN_VERSIONS = 1000;
+
+/**
+ * Version Replicate reports for official models, whose versions aren't public
+ */
+const HIDDEN_VERSION = "hidden";
+
+/**
+ * A model identifier split into its parts
+ */
+export interface ModelIdentity {
+  /** The model as owner/name, or "unknown" when only a version hash is known */
+  model: string;
+  /** The owner of the model */
+  owner?: string;
+  /** The version hash */
+  version?: string;
+}
+
+/**
+ * Splits a model identifier into owner/name, owner and version
+ *
+ * Accepts "owner/name", "owner/name:version" and bare version hashes.
+ *
+ * @param identifier - The model identifier
+ * @returns The parts of the identifier
+ */
+export function parseModelIdentifier(identifier: string): ModelIdentity {
+  if (VERSION_HASH_PATTERN.test(identifier)) {
+    return { model: "unknown", version: identifier };
+  }
+  const [model = identifier, version] = identifier.split(":");
+  const identity: ModelIdentity = { model };
+  const slash = model.indexOf("/");
+  if (slash > 0) {
+    identity.owner = model.slice(0, slash);
+  }
+  if (version) {
+    identity.version = version;
+  }
+  return identity;
+}
+
+/**
+ * The `$ai_model`, `$ai_model_owner` and `$ai_model_version` properties for a model identifier
+ */
+export function modelIdentityProperties(identifier: string): Record<string, unknown> {
+  const { model, owner, version } = parseModelIdentifier(identifier);
+  return {
+    $ai_model: model,
+    ...(owner && { $ai_model_owner: owner }),
+    ...(version && { $ai_model_version: version }),
+  };
+}
+
+/**
+ * A model identifier without its version, as owner/name
+ */
+export function stripModelVersion(identifier: string): string {
+  const [model = identifier] = identifier.split(":");
+  return model;
+}
+
+/**
+ * Looks up the entry registered for a model identifier in a per-model table
+ * Tries the exact identifier first, then falls back to owner/name without the version
+ */
+export function resolveModelEntry<T>(model: string, table: Record<string, T> | undefined): T | undefined {
+  if (!table) {
+    return undefined;
+  }
+  return table[model] ?? table[stripModelVersion(model)];
+}
+
+/**
+ * Whether a model identifier is in a list of models
+ * Matches the exact identifier first, then owner/name without the version
+ */
+export function isModelListed(model: string, models: string[]): boolean {
+  return models.includes(model) || models.includes(stripModelVersion(model));
+}
+
+/**
+ * Normalizes the model identifiers of calls and predictions
+ *
+ * Remembers which model each version hash seen in a prediction belongs to,
+ * so a prediction created from a bare version hash is reported under its
+ * model. With a lookup, models called without a version are resolved to
+ * their latest version, cached for an hour.
+ */
+export class ModelResolver {
+  private lookup: ModelVersionLookup | undefined;
+  /** Model owner/name by version hash */
+  private versionModels = new LruMap<string, string>(MAX_KNOWN_VERSIONS);
+  private lookups = new Map<string, { version: Promise<string | undefined>; expiresAt: number }>();
+
+  /**
+   * @param lookup - Looks up the latest version of a model; versions aren't looked up without it
+   */
+  constructor(lookup?: ModelVersionLookup) {
+    this.lookup = lookup;
+  }
+
+  /**
+   * Combines a model and version into a single "owner/name:version" identifier
+   *
+   * @param model - Model identifier, which may itself carry a version or be a bare version hash
+   * @param version - Version hash, when known separately; the "hidden" version of official models is left out
+   * @returns The most complete identifier known, or "unknown"
+   */
+  identify(model: string | undefined, version?: string): string {
+    const parsed = model ? parseModelIdentifier(model) : undefined;
+    const resolvedVersion = [version, parsed?.version].find((candidate) => candidate && candidate !== HIDDEN_VERSION);
+    let name = parsed && parsed.model !== "unknown" ? parsed.model : undefined;
+
+    if (resolvedVersion) {
+      if (name) {
+        this.versionModels.set(resolvedVersion, name);
+      } else {
+        name = this.versionModels.get(resolvedVersion);
+      }
+    }
+    if (!name) {
+      return resolvedVersion ?? "unknown";
+    }
+    return resolvedVersion ? `${name}:${resolvedVersion}` : name;
+  }
+
+  /**
+   * Like identify(), and looks up the latest version of a model called without one
+   * Never rejects; a failed lookup leaves the version out
+   */
+  async resolve(model: string | undefined, version?: string): Promise<string> {
+    const identifier = this.identify(model, version);
+    const { model: name, owner, version: resolvedVersion } = parseModelIdentifier(identifier);
+    if (resolvedVersion || !owner || !this.lookup) {
+      return identifier;
+    }
+    const latest = await this.lookupVersion(name, owner);
+    return latest ? this.identify(name, latest) : identifier;
+  }
+
+  private lookupVersion(model: string, owner: string): Promise<string | undefined> {
+    const cached = this.lookups.get(model);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.version;
+    }
+    const lookup = this.lookup!;
+    const version = Promise.resolve()
+      .then(() => lookup(owner, model.slice(owner.length + 1)))
+      .catch(() => undefined);
+    this.lookups.set(model, { version, expiresAt: Date.now() + LOOKUP_TTL_MS });
+    return version;
+  }
+}
@@ -0,0 +1,11 @@
+/**
+ * Whether a value is a plain object, as written in an object literal or parsed from JSON
+ * Arrays, class instances, Buffers and Blobs aren't; objects without a prototype are
+ */
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
@@ -0,0 +1,102 @@
+import type { ModelPricing, PredictionUsage } from "./types.js";
+import { resolveModelEntry } from "./models.js";
+
+/**
+ * Replicate list prices in USD per second for public hardware SKUs
+ */
+export const HARDWARE_PRICING: Record<string, number> = {
+  cpu: 0.0001,
+  "gpu-t4": 0.000225,
+  "gpu-l40s": 0.000975,
+  "gpu-l40s-2x": 0.00195,
+  "gpu-a100-large": 0.0014,
+  "gpu-a100-large-2x": 0.0028,
+  "gpu-h100": 0.001525,
+};
+
+/**
+ * Built-in pricing for commonly used models
+ *
+ * Prices change over time, so pass `pricing` in ReplicateOptions to override
+ * or extend these entries.
+ */
+export const DEFAULT_MODEL_PRICING: Record<string, ModelPricing> = {
+  "meta/meta-llama-3-8b-instruct": {
+    inputCostPerToken: 0.05 / 1_000_000,
+    outputCostPerToken: 0.25 / 1_000_000,
+  },
+  "meta/meta-llama-3-70b-instruct": {
+    inputCostPerToken: 0.65 / 1_000_000,
+    outputCostPerToken: 2.75 / 1_000_000,
+  },
+  "meta/meta-llama-3.1-405b-instruct": {
+    inputCostPerToken: 9.5 / 1_000_000,
+    outputCostPerToken: 9.5 / 1_000_000,
+  },
+  "stability-ai/sdxl": { hardware: "gpu-l40s" },
+};
+
+/**
+ * Looks up the pricing for a model identifier
+ * Tries the exact identifier first, then falls back to owner/name without the version
+ */
+export function resolvePricing(
+  model: string,
+  table: Record<string, ModelPricing>
+): ModelPricing | undefined {
+  return resolveModelEntry(model, table);
+}
+
+/**
+ * Extracts token counts and predict time from a prediction's metrics
+ */
+export function extractUsage(prediction: unknown): PredictionUsage | undefined {
+  if (!prediction || typeof prediction !== "object") {
+    return undefined;
+  }
+  const metrics = (prediction as Record<string, unknown>).metrics;
+  if (!metrics || typeof metrics !== "object") {
+    return undefined;
+  }
+
+  const { input_token_count, output_token_count, predict_time } = metrics as Record<string, unknown>;
+  const usage: PredictionUsage = {};
+  if (typeof input_token_count === "number") {
+    usage.inputTokens = input_token_count;
+  }
+  if (typeof output_token_count === "number") {
+    usage.outputTokens = output_token_count;
+  }
+  if (typeof predict_time === "number") {
+    usage.predictTime = predict_time;
+  }
+  return Object.keys(usage).length > 0 ? usage : undefined;
+}
+
+/**
+ * Estimates the cost of a generation in USD
+ *
+ * Token pricing is used when the model has token prices and Replicate reported
+ * token counts; otherwise the predict time is billed at the per-second rate.
+ * Returns undefined when there isn't enough information to estimate a cost.
+ */
+export function calculateCost(
+  usage: PredictionUsage,
+  pricing: ModelPricing
+): { input?: number; output?: number; total: number } | undefined {
+  const hasTokenPricing = pricing.inputCostPerToken !== undefined || pricing.outputCostPerToken !== undefined;
+  const hasTokenUsage = usage.inputTokens !== undefined || usage.outputTokens !== undefined;
+
+  if (hasTokenPricing && hasTokenUsage) {
+    const input = (usage.inputTokens ?? 0) * (pricing.inputCostPerToken ?? 0);
+    const output = (usage.outputTokens ?? 0) * (pricing.outputCostPerToken ?? 0);
+    return { input, output, total: input + output };
+  }
+
+  const costPerSecond = pricing.costPerSecond ?? (pricing.hardware ? HARDWARE_PRICING[pricing.hardware] : undefined);
+  if (costPerSecond !== undefined && usage.predictTime !== undefined) {
+    return { total: usage.predictTime * costPerSecond };
+  }
+
+  return undefined;
+}
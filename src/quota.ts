@@ -0,0 +1,223 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import type { QuotaLimit, QuotaOptions, QuotaStore, QuotaUsage } from "./types.js";
+import { isModelListed, stripModelVersion } from "./models.js";
+import { LruMap } from "./lru.js";
+
+/**
+ * Set while a call that passed the quota check runs, so the calls it makes
+ * internally, such as the predictions.create() made by run(), aren't counted
+ * again and their cost isn't recorded twice
+ */
+const quotaScope = new AsyncLocalStorage<true>();
+
+/**
+ * The call a quota check is made for
+ */
+export interface QuotaSubject {
+  /** Model identifier, or deployment as owner/name */
+  model: string;
+  /** Distinct ID the call is attributed to */
+  distinctId?: string;
+  /** Group identifiers of the call */
+  groups?: Record<string, string>;
+}
+
+/**
+ * Thrown when a call would go over a quota limit
+ *
+ * The call is rejected before it reaches Replicate.
+ */
+export class QuotaExceededError extends Error {
+  override readonly name = "QuotaExceededError";
+  /** The limit that was hit */
+  readonly limit: QuotaLimit;
+  /** The distinct ID, group key or model the limit was hit for */
+  readonly subject: string;
+  /** Usage counted in the limit's window before the call */
+  readonly usage: QuotaUsage;
+
+  constructor(limit: QuotaLimit, subject: string, usage: QuotaUsage) {
+    const amount = limit.maxCalls !== undefined && usage.calls >= limit.maxCalls
+      ? `${limit.maxCalls} calls`
+      : `$${limit.maxCost} of estimated spend`;
+    super(`posthog-replicate: quota of ${amount} per ${limit.window}s exceeded for ${describeScope(limit)} "${subject}"`);
+    this.limit = limit;
+    this.subject = subject;
+    this.usage = usage;
+  }
+}
+
+/**
+ * Runs a call that passed the quota check
+ * Quota checks and costs recorded inside it pass without being counted
+ */
+export function runInQuotaScope<T>(fn: () => T): T {
+  return quotaScope.run(true, fn);
+}
+
+/**
+ * Enforces quota limits on calls
+ *
+ * Every call is counted against each limit that applies to it when it
+ * starts, and its estimated cost once it finishes. Checks and counts are
+ * separate store operations, so concurrent calls can go slightly over a
+ * limit.
+ */
+export class QuotaGuard {
+  private limits: QuotaLimit[];
+  private store: QuotaStore;
+  /** How long usage is kept: the longest window of any limit */
+  private ttl: number;
+
+  constructor(options: QuotaOptions) {
+    this.limits = options.limits;
+    this.store = options.store ?? new InMemoryQuotaStore();
+    this.ttl = Math.max(0, ...options.limits.map((limit) => limit.window));
+  }
+
+  /**
+   * Checks every limit that applies to a call and counts the call against them
+   *
+   * @param call - The call about to be made
+   * @throws QuotaExceededError when a limit has been reached
+   */
+  async acquire(call: QuotaSubject): Promise<void> {
+    if (quotaScope.getStore()) {
+      return;
+    }
+    const applicable = this.applicableLimits(call);
+    const now = Date.now();
+    for (const { limit, key, subject } of applicable) {
+      const usage = await this.store.usage(key, now - limit.window * 1000);
+      if (
+        (limit.maxCalls !== undefined && usage.calls >= limit.maxCalls) ||
+        (limit.maxCost !== undefined && usage.cost >= limit.maxCost)
+      ) {
+        throw new QuotaExceededError(limit, subject, usage);
+      }
+    }
+    for (const key of new Set(applicable.map(({ key }) => key))) {
+      await this.store.record(key, { calls: 1, cost: 0 }, this.ttl);
+    }
+  }
+
+  /**
+   * Counts the estimated cost of a finished call against the spend limits that apply to it
+   */
+  async recordCost(call: QuotaSubject, cost: number): Promise<void> {
+    if (cost <= 0 || quotaScope.getStore()) {
+      return;
+    }
+    const keys = this.applicableLimits(call)
+      .filter(({ limit }) => limit.maxCost !== undefined)
+      .map(({ key }) => key);
+    for (const key of new Set(keys)) {
+      await this.store.record(key, { calls: 0, cost }, this.ttl);
+    }
+  }
+
+  /**
+   * The limits that apply to a call, with the store key and subject each is counted under
+   */
+  private applicableLimits(call: QuotaSubject): Array<{ limit: QuotaLimit; key: string; subject: string }> {
+    const applicable: Array<{ limit: QuotaLimit; key: string; subject: string }> = [];
+    for (const limit of this.limits) {
+      if (limit.models && !isModelListed(call.model, limit.models)) {
+        continue;
+      }
+      let subject: string | undefined;
+      if (limit.per === "distinctId") {
+        subject = call.distinctId;
+      } else if (limit.per === "group") {
+        subject = limit.groupType ? call.groups?.[limit.groupType] : undefined;
+      } else {
+        subject = stripModelVersion(call.model);
+      }
+      if (subject === undefined) {
+        continue;
+      }
+      // Limits with the same scope and models share their counts, whatever their window
+      const scope = limit.per === "group" ? `group:${limit.groupType}` : limit.per;
+      const models = limit.models ? `:${[...limit.models].sort().join(",")}` : "";
+      applicable.push({ limit, key: `${scope}${models}:${subject}`, subject });
+    }
+    return applicable;
+  }
+}
+
+/**
+ * Options for InMemoryQuotaStore
+ */
+export interface InMemoryQuotaStoreOptions {
+  /** Maximum number of keys to keep before evicting the least recently used (defaults to 10,000) */
+  maxKeys?: number;
+}
+
+/**
+ * Usage recorded at one point in time
+ */
+interface UsageEntry extends QuotaUsage {
+  /** When the usage was recorded, in milliseconds since the epoch */
+  at: number;
+  /** When the entry expires, in milliseconds since the epoch */
+  expiresAt: number;
+}
+
+/**
+ * Bounded in-memory quota store with least-recently-used eviction
+ *
+ * This is the default store. Usage is only counted per process; use a shared
+ * store when calls are spread over several processes.
+ */
+export class InMemoryQuotaStore implements QuotaStore {
+  private entries: LruMap<string, UsageEntry[]>;
+
+  constructor(options: InMemoryQuotaStoreOptions = {}) {
+    this.entries = new LruMap(options.maxKeys ?? 10_000);
+  }
+
+  async usage(key: string, since: number): Promise<QuotaUsage> {
+    const entries = this.liveEntries(key);
+    const usage: QuotaUsage = { calls: 0, cost: 0 };
+    for (const entry of entries) {
+      if (entry.at >= since) {
+        usage.calls += entry.calls;
+        usage.cost += entry.cost;
+      }
+    }
+    return usage;
+  }
+
+  async record(key: string, usage: QuotaUsage, ttlSeconds: number): Promise<void> {
+    const now = Date.now();
+    const entries = this.liveEntries(key);
+    entries.push({ ...usage, at: now, expiresAt: now + ttlSeconds * 1000 });
+    this.entries.set(key, entries);
+  }
+
+  /** Number of keys currently stored, including ones whose entries expired but weren't evicted yet */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * The unexpired entries of a key, moving the key to the most recently used position
+   */
+  private liveEntries(key: string): UsageEntry[] {
+    const now = Date.now();
+    const entries = (this.entries.get(key) ?? []).filter((entry) => entry.expiresAt > now);
+    if (entries.length > 0) {
+      this.entries.set(key, entries);
+    } else {
+      this.entries.delete(key);
+    }
+    return entries;
+  }
+}
+
+function describeScope(limit: QuotaLimit): string {
+  if (limit.per === "distinctId") {
+    return "distinct ID";
+  }
+  return limit.per === "group" ? `group ${limit.groupType}` : "model";
+}
@@ -0,0 +1,110 @@
+import type { RedactOptions } from "./types.js";
+import { isPlainObject } from "./objects.js";
+
+/**
+ * Common patterns for use with `RedactOptions.mask`
+ */
+export const REDACTION_PATTERNS = {
+  /** Email addresses */
+  email: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+  /** Replicate, PostHog and OpenAI-style API keys */
+  apiKey: /\b(?:r8_[A-Za-z0-9]{20,}|ph[cx]_[A-Za-z0-9]{20,}|sk-[A-Za-z0-9_-]{20,})\b/g,
+} as const;
+
+const DEFAULT_MASK_REPLACEMENT = "[REDACTED]";
+
+/**
+ * Merges per-call redaction options over the client-wide ones
+ * Per-call keys replace client-wide keys rather than being combined with them
+ */
+export function mergeRedactOptions(
+  base: RedactOptions | undefined,
+  override: RedactOptions | undefined
+): RedactOptions | undefined {
+  if (!base) {
+    return override;
+  }
+  if (!override) {
+    return base;
+  }
+  return { ...base, ...override };
+}
+
+/**
+ * Applies redaction rules to a model input or output
+ *
+ * The custom hook for the target runs first, then the allowlist (inputs
+ * only), omitted fields, mask patterns and string truncation are applied to
+ * its result.
+ *
+ * @param value - The input or output to redact
+ * @param options - Redaction rules
+ * @param target - Whether the value is the model input or output
+ * @returns A redacted copy; the original value is never modified
+ */
+export function applyRedaction(value: unknown, options: RedactOptions, target: "input" | "output"): unknown {
+  const hook = target === "input" ? options.redactInput : options.redactOutput;
+  let result = hook ? hook(value) : value;
+
+  if (target === "input" && options.allowFields && isPlainObject(result)) {
+    const allowed = new Set(options.allowFields);
+    result = Object.fromEntries(Object.entries(result).filter(([key]) => allowed.has(key)));
+  }
+
+  return redactNested(result, options);
+}
+
+/**
+ * Recursively drops omitted fields and masks and truncates strings
+ */
+function redactNested(value: unknown, options: RedactOptions): unknown {
+  if (typeof value === "string") {
+    return redactString(value, options);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redactNested(item, options));
+  }
+  if (isPlainObject(value)) {
+    const omitted = new Set(options.omitFields);
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      if (!omitted.has(key)) {
+        result[key] = redactNested(item, options);
+      }
+    }
+    return result;
+  }
+  return value;
+}
+
+/**
+ * Masks pattern matches in a string with the `mask` rules
+ *
+ * @param value - The string to mask
+ * @param options - Redaction rules; only `mask` is applied
+ * @returns The masked string
+ */
+export function maskString(value: string, options: RedactOptions): string {
+  let result = value;
+  for (const rule of options.mask ?? []) {
+    const { pattern, replacement } = rule instanceof RegExp
+      ? { pattern: rule, replacement: DEFAULT_MASK_REPLACEMENT }
+      : rule;
+    // Always replace every match, even when the pattern wasn't declared global
+    const globalPattern = pattern.global ? pattern : new RegExp(pattern.source, `${pattern.flags}g`);
+    result = result.replace(globalPattern, replacement);
+  }
+  return result;
+}
+
+/**
+ * Masks pattern matches in a string and truncates it to the maximum length
+ */
+function redactString(value: string, options: RedactOptions): string {
+  let result = maskString(value, options);
+  if (options.maxStringLength !== undefined && result.length > options.maxStringLength) {
+    const removed = result.length - options.maxStringLength;
+    result = `${result.slice(0, options.maxStringLength)}...[truncated ${removed} chars]`;
+  }
+  return result;
+}
@@ -0,0 +1,187 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import type { RetryOptions } from "./types.js";
+import { createTimer, extractHttpStatus } from "./capture.js";
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_INITIAL_DELAY = 500;
+const DEFAULT_MAX_DELAY = 30_000;
+
+/**
+ * Set while an operation is being retried, so the calls it makes internally
+ * aren't retried again
+ */
+const retryScope = new AsyncLocalStorage<true>();
+
+/**
+ * Progress of a retried operation, readable after it settles
+ */
+export interface RetryState {
+  /** Number of retries made so far */
+  retryCount: number;
+}
+
+/**
+ * A failed attempt that is about to be retried
+ */
+export interface FailedAttempt {
+  /** The error the attempt failed with */
+  error: unknown;
+  /** Attempt number, starting at 1 */
+  attempt: number;
+  /** Duration of the attempt in seconds */
+  latency: number;
+  /** Milliseconds until the next attempt */
+  delay: number;
+}
+
+/**
+ * Resolves the retry policy for a call
+ * Per-call keys replace client-wide keys, and false disables retries
+ */
+export function resolveRetryPolicy(
+  base: RetryOptions | undefined,
+  override: RetryOptions | false | undefined
+): RetryOptions | undefined {
+  if (override === false) {
+    return undefined;
+  }
+  if (!base || !override) {
+    return base ?? override;
+  }
+  return { ...base, ...override };
+}
+
+/**
+ * Works out how long to wait before retrying a failed attempt
+ *
+ * @param error - The error the attempt failed with
+ * @param attempt - Attempt number of the failed attempt, starting at 1
+ * @param policy - The retry policy
+ * @param idempotent - Whether the operation can be repeated safely after a server error
+ * @returns The delay in milliseconds, or undefined if the error shouldn't be retried
+ */
+export function getRetryDelay(
+  error: unknown,
+  attempt: number,
+  policy: RetryOptions,
+  idempotent: boolean
+): number | undefined {
+  if (attempt >= (policy.maxAttempts ?? DEFAULT_MAX_ATTEMPTS) || !isRetryable(error, idempotent)) {
+    return undefined;
+  }
+  const maxDelay = policy.maxDelay ?? DEFAULT_MAX_DELAY;
+
+  const retryAfter = parseRetryAfter(error);
+  if (retryAfter !== undefined) {
+    return retryAfter <= maxDelay ? retryAfter : undefined;
+  }
+
+  const delay = Math.min((policy.initialDelay ?? DEFAULT_INITIAL_DELAY) * 2 ** (attempt - 1), maxDelay);
+  // Equal jitter: keep half the delay and randomize the other half
+  return policy.jitter === false ? delay : delay / 2 + Math.random() * (delay / 2);
+}
+
+/**
+ * Runs an operation, retrying it under a retry policy
+ *
+ * Without a policy, or inside an operation that is already being retried,
+ * the operation runs once.
+ *
+ * @param operation - The operation to run
+ * @param options - The policy, whether the operation is idempotent, an abort
+ *   signal that ends the wait between attempts, a state object counting the
+ *   retries, and a callback run for every failed attempt that is retried
+ * @returns The result of the first successful attempt
+ */
+export async function withRetries<T>(
+  operation: () => Promise<T>,
+  options: {
+    policy: RetryOptions | undefined;
+    idempotent: boolean;
+    signal?: AbortSignal;
+    state: RetryState;
+    onRetry?: (attempt: FailedAttempt) => void;
+  }
+): Promise<T> {
+  const { policy, idempotent, signal, state, onRetry } = options;
+  if (!policy || retryScope.getStore()) {
+    return operation();
+  }
+
+  return retryScope.run(true, async () => {
+    for (let attempt = 1; ; attempt++) {
+      const getElapsed = createTimer();
+      try {
+        return await operation();
+      } catch (error) {
+        const delay = signal?.aborted ? undefined : getRetryDelay(error, attempt, policy, idempotent);
+        if (delay === undefined) {
+          throw error;
+        }
+        onRetry?.({ error, attempt, latency: getElapsed(), delay });
+        await sleep(delay, signal);
+        state.retryCount++;
+      }
+    }
+  });
+}
+
+/**
+ * Whether an error is worth retrying
+ * Rate limits always are; server errors and network failures only for idempotent operations
+ */
+function isRetryable(error: unknown, idempotent: boolean): boolean {
+  const status = extractHttpStatus(error);
+  if (status === 429) {
+    return true;
+  }
+  if (!idempotent) {
+    return false;
+  }
+  if (status !== undefined) {
+    return status >= 500;
+  }
+  // fetch() rejects with a TypeError when the request never got a response
+  return error instanceof TypeError;
+}
+
+/**
+ * Reads the Retry-After header of a failed response, in milliseconds
+ * The header holds either a number of seconds or an HTTP date
+ */
+function parseRetryAfter(error: unknown): number | undefined {
+  const response = (error as { response?: { headers?: { get?: unknown } } } | null)?.response;
+  const value = typeof response?.headers?.get === "function"
+    ? (response.headers as Headers).get("retry-after")
+    : null;
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds) * 1000;
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Waits for a delay, rejecting early if the signal aborts
+ */
+function sleep(ms: number, signal: AbortSignal | undefined): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
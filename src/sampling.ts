@@ -0,0 +1,67 @@
+import { createHash } from "node:crypto";
+import type { SamplingOptions } from "./types.js";
+import { resolveModelEntry } from "./models.js";
+
+/**
+ * Outcome of sampling an event
+ */
+export interface SamplingDecision {
+  /** Whether the event should be sent */
+  sampled: boolean;
+  /** Rate the event was sampled at, sent as `$ai_sample_rate` */
+  rate: number;
+}
+
+/**
+ * Decides whether an event is kept under a sampling policy
+ *
+ * Events are sampled by trace ID, falling back to distinct ID, so every event
+ * of a trace gets the same decision at a given rate; with different
+ * per-model rates, the events kept at a lower rate are always a subset of
+ * those kept at a higher one. Events without either ID are sampled at
+ * random. Errors are kept at a rate of 1 unless `keepErrors` is false.
+ *
+ * @param options - The sampling policy
+ * @param event - Model, IDs and error flag of the event
+ * @returns Whether to send the event, and the rate to report with it
+ */
+export function sampleEvent(
+  options: SamplingOptions,
+  event: { model?: string; distinctId?: string; traceId?: string; isError?: boolean }
+): SamplingDecision {
+  if (event.isError && options.keepErrors !== false) {
+    return { sampled: true, rate: 1 };
+  }
+
+  const rate = clampRate(resolveSampleRate(event.model, options));
+  if (rate >= 1) {
+    return { sampled: true, rate };
+  }
+  if (rate <= 0) {
+    return { sampled: false, rate };
+  }
+
+  const key = event.traceId || event.distinctId;
+  return { sampled: (key ? hashToUnitInterval(key) : Math.random()) < rate, rate };
+}
+
+/**
+ * Looks up the sample rate for a model
+ * Tries an exact match first, then the model without its `:version` suffix,
+ * then the global rate
+ */
+function resolveSampleRate(model: string | undefined, options: SamplingOptions): number {
+  const rate = model ? resolveModelEntry(model, options.modelRates) : undefined;
+  return rate ?? options.rate ?? 1;
+}
+
+function clampRate(rate: number): number {
+  return Number.isNaN(rate) ? 1 : Math.min(1, Math.max(0, rate));
+}
+
+/**
+ * Maps a string to a stable number in [0, 1)
+ */
+function hashToUnitInterval(key: string): number {
+  return createHash("sha256").update(key).digest().readUInt32BE(0) / 0x100000000;
+}
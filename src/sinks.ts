@@ -0,0 +1,231 @@
+import type { PostHog } from "posthog-node";
+import type { Attributes, SpanKind, SpanStatusCode, Tracer } from "@opentelemetry/api";
+import type { OutputContentPart, TelemetryRecord, TelemetrySink } from "./types.js";
+import { POSTHOG_CONSTANTS } from "./types.js";
+
+// Enum values from @opentelemetry/api, which is only imported for its types
+// so that it stays an optional dependency
+const SPAN_KIND_INTERNAL: SpanKind.INTERNAL = 0;
+const SPAN_KIND_CLIENT: SpanKind.CLIENT = 2;
+const SPAN_STATUS_ERROR: SpanStatusCode.ERROR = 2;
+
+/**
+ * GenAI operation name for Replicate predictions, which can produce any modality
+ */
+const GEN_AI_OPERATION = "generate_content";
+
+/**
+ * Events OpenTelemetrySink doesn't record, since they don't describe an operation
+ */
+const SKIPPED_EVENTS = new Set<string>([
+  POSTHOG_CONSTANTS.SUMMARY_EVENT_NAME,
+  POSTHOG_CONSTANTS.FEEDBACK_EVENT_NAME,
+  POSTHOG_CONSTANTS.METRIC_EVENT_NAME,
+]);
+
+/**
+ * Sends events to a PostHog client
+ *
+ * This is the sink used for `ReplicateOptions.posthog`.
+ */
+export class PostHogSink implements TelemetrySink {
+  private posthog: PostHog;
+
+  constructor(posthog: PostHog) {
+    this.posthog = posthog;
+  }
+
+  capture(record: TelemetryRecord): void {
+    this.posthog.capture(record);
+  }
+}
+
+/**
+ * Called with the error and event when a sink throws
+ */
+export type SinkErrorHandler = (error: unknown, record: TelemetryRecord) => void;
+
+/**
+ * Sends every event to each of several sinks
+ *
+ * A sink that throws is reported to `onError` (console.warn by default) and
+ * never fails the call being captured; the other sinks still receive the event.
+ */
+export class FanOutSink implements TelemetrySink {
+  private sinks: TelemetrySink[];
+  private onError: SinkErrorHandler;
+
+  constructor(sinks: TelemetrySink[], onError?: SinkErrorHandler) {
+    this.sinks = sinks;
+    this.onError = onError ?? warnSinkError;
+  }
+
+  capture(record: TelemetryRecord): void {
+    for (const sink of this.sinks) {
+      try {
+        sink.capture(record);
+      } catch (err) {
+        this.report(err, record);
+      }
+    }
+  }
+
+  private report(error: unknown, record: TelemetryRecord): void {
+    try {
+      this.onError(error, record);
+    } catch {
+      // A failing error handler mustn't fail the call either
+    }
+  }
+}
+
+function warnSinkError(error: unknown, record: TelemetryRecord): void {
+  console.warn(`posthog-replicate: a sink failed to capture ${record.event}:`, error);
+}
+
+/**
+ * Options for OpenTelemetrySink
+ */
+export interface OpenTelemetrySinkOptions {
+  /** Tracer to record spans with, e.g. `trace.getTracer("my-service")` */
+  tracer: Tracer;
+  /** Record inputs and outputs as `gen_ai.input.messages` and `gen_ai.output.messages` (defaults to false) */
+  captureContent?: boolean;
+}
+
+/**
+ * Records events as OpenTelemetry spans following the GenAI semantic conventions
+ *
+ * Generations become client spans named "generate_content {model}" with
+ * `gen_ai.*` attributes, and `$ai_span` and `$ai_trace` events become
+ * internal spans. Spans are backdated by the event's latency and parented to
+ * the active OpenTelemetry context. Aggregated summaries, feedback and
+ * metrics have no span equivalent and are skipped.
+ */
+export class OpenTelemetrySink implements TelemetrySink {
+  private tracer: Tracer;
+  private captureContent: boolean;
+
+  constructor(options: OpenTelemetrySinkOptions) {
+    this.tracer = options.tracer;
+    this.captureContent = options.captureContent ?? false;
+  }
+
+  capture(record: TelemetryRecord): void {
+    if (SKIPPED_EVENTS.has(record.event)) {
+      return;
+    }
+
+    const properties = record.properties;
+    const isGeneration = record.event === POSTHOG_CONSTANTS.EVENT_NAME;
+    const latency = typeof properties.$ai_latency === "number" ? properties.$ai_latency : 0;
+    const endTime = Date.now();
+
+    const span = this.tracer.startSpan(
+      isGeneration ? `${GEN_AI_OPERATION} ${properties.$ai_model}` : String(properties.$ai_span_name ?? record.event),
+      {
+        kind: isGeneration ? SPAN_KIND_CLIENT : SPAN_KIND_INTERNAL,
+        startTime: new Date(endTime - latency * 1000),
+        attributes: isGeneration ? this.generationAttributes(record) : commonAttributes(record),
+      }
+    );
+    if (properties.$ai_is_error) {
+      span.setAttribute("error.type", errorType(properties.$ai_error));
+      span.setStatus({ code: SPAN_STATUS_ERROR, message: errorMessage(properties.$ai_error) });
+    }
+    span.end(new Date(endTime));
+  }
+
+  private generationAttributes(record: TelemetryRecord): Attributes {
+    const properties = record.properties;
+    const attributes: Attributes = {
+      ...commonAttributes(record),
+      "gen_ai.operation.name": GEN_AI_OPERATION,
+      "gen_ai.request.model": String(properties.$ai_model),
+      "server.address": new URL(POSTHOG_CONSTANTS.BASE_URL).hostname,
+    };
+    if (typeof properties.$ai_prediction_id === "string") {
+      attributes["gen_ai.response.id"] = properties.$ai_prediction_id;
+    }
+    if (typeof properties.$ai_input_tokens === "number") {
+      attributes["gen_ai.usage.input_tokens"] = properties.$ai_input_tokens;
+    }
+    if (typeof properties.$ai_output_tokens === "number") {
+      attributes["gen_ai.usage.output_tokens"] = properties.$ai_output_tokens;
+    }
+    if (this.captureContent) {
+      if (Array.isArray(properties.$ai_input)) {
+        attributes["gen_ai.input.messages"] = JSON.stringify(properties.$ai_input.map(toGenAiMessage));
+      }
+      if (Array.isArray(properties.$ai_output_choices)) {
+        attributes["gen_ai.output.messages"] = JSON.stringify(properties.$ai_output_choices.map(toGenAiMessage));
+      }
+    }
+    return attributes;
+  }
+}
+
+/**
+ * Attributes shared by generation and span records
+ * `gen_ai.system` is the name used for the provider before semantic conventions 1.37
+ */
+function commonAttributes(record: TelemetryRecord): Attributes {
+  const attributes: Attributes = {
+    "gen_ai.provider.name": POSTHOG_CONSTANTS.PROVIDER,
+    "gen_ai.system": POSTHOG_CONSTANTS.PROVIDER,
+    "posthog.distinct_id": record.distinctId,
+  };
+  if (typeof record.properties.$ai_trace_id === "string") {
+    attributes["posthog.trace_id"] = record.properties.$ai_trace_id;
+  }
+  if (typeof record.properties.$ai_span_id === "string") {
+    attributes["posthog.span_id"] = record.properties.$ai_span_id;
+  }
+  return attributes;
+}
+
+/**
+ * Converts a `{ role, content }` message to the GenAI `{ role, parts }` shape
+ */
+function toGenAiMessage(message: unknown): unknown {
+  const { role, content } = (message ?? {}) as { role?: unknown; content?: unknown };
+  const parts = Array.isArray(content) && content.length > 0 && content.every(isContentPart)
+    ? content.map(toGenAiPart)
+    : [{ type: "text", content: typeof content === "string" ? content : JSON.stringify(content) }];
+  return { role, parts };
+}
+
+/**
+ * Converts a formatted output part to a GenAI part; media with a URL becomes a `uri` part
+ */
+function toGenAiPart(part: OutputContentPart): Record<string, unknown> {
+  if (part.type === "text") {
+    return { type: "text", content: part.text };
+  }
+  if (part.type !== "embedding" && part.url) {
+    return { type: "uri", modality: part.type, uri: part.url, ...(part.mime_type && { mime_type: part.mime_type }) };
+  }
+  return { type: "text", content: JSON.stringify(part) };
+}
+
+function isContentPart(value: unknown): value is OutputContentPart {
+  const type = (value as { type?: unknown } | null)?.type;
+  return type === "text" || type === "image" || type === "audio" || type === "video" || type === "embedding";
+}
+
+function errorType(error: unknown): string {
+  if (error && typeof error === "object" && typeof (error as { name?: unknown }).name === "string") {
+    return (error as { name: string }).name;
+  }
+  return "_OTHER";
+}
+
+function errorMessage(error: unknown): string | undefined {
+  if (typeof error === "string") {
+    return error;
+  }
+  if (error && typeof error === "object" && typeof (error as { message?: unknown }).message === "string") {
+    return (error as { message: string }).message;
+  }
+  return undefined;
+}
@@ -0,0 +1,185 @@
+import { randomUUID } from "node:crypto";
+import { mkdir, readFile, readdir, rename, unlink, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import type { PredictionTrackingState, PredictionTrackingStore } from "./types.js";
+import { LruMap } from "./lru.js";
+
+/**
+ * An entry in a tracking store along with its expiry time
+ */
+interface StoredEntry {
+  /** When the entry expires, in milliseconds since the epoch */
+  expiresAt: number;
+  /** The stored tracking state */
+  state: PredictionTrackingState;
+}
+
+/**
+ * Options for InMemoryPredictionTrackingStore
+ */
+export interface InMemoryPredictionTrackingStoreOptions {
+  /** Maximum number of predictions to keep before evicting the least recently used (defaults to 10,000) */
+  maxSize?: number;
+}
+
+/**
+ * Bounded in-memory tracking store with least-recently-used eviction
+ *
+ * This is the default store. It only links create() and get() calls made
+ * through the same process; use a persistent store when they happen in
+ * different processes.
+ */
+export class InMemoryPredictionTrackingStore implements PredictionTrackingStore {
+  private entries: LruMap<string, StoredEntry>;
+
+  constructor(options: InMemoryPredictionTrackingStoreOptions = {}) {
+    this.entries = new LruMap(options.maxSize ?? 10_000);
+  }
+
+  async get(predictionId: string): Promise<PredictionTrackingState | undefined> {
+    const entry = this.entries.get(predictionId);
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(predictionId);
+      return undefined;
+    }
+    return entry.state;
+  }
+
+  async set(predictionId: string, state: PredictionTrackingState, ttlSeconds: number): Promise<void> {
+    this.entries.set(predictionId, { state, expiresAt: Date.now() + ttlSeconds * 1000 });
+  }
+
+  async delete(predictionId: string): Promise<void> {
+    this.entries.delete(predictionId);
+  }
+
+  /** Number of predictions currently stored, including expired ones not yet evicted */
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+/**
+ * Options for FilePredictionTrackingStore
+ */
+export interface FilePredictionTrackingStoreOptions {
+  /** Directory to store one JSON file per prediction in; created if missing */
+  directory: string;
+}
+
+/**
+ * File-backed tracking store for linking predictions across processes
+ *
+ * Each prediction is written to its own JSON file, so any process sharing
+ * the directory (e.g. an API server and a worker on the same volume) sees the
+ * tracking options stored by create(). Writes go through a temporary file and
+ * a rename so readers never see a partially written entry.
+ */
+export class FilePredictionTrackingStore implements PredictionTrackingStore {
+  private directory: string;
+  private ready: Promise<unknown> | undefined;
+
+  constructor(options: FilePredictionTrackingStoreOptions) {
+    this.directory = options.directory;
+  }
+
+  async get(predictionId: string): Promise<PredictionTrackingState | undefined> {
+    let entry: StoredEntry;
+    try {
+      entry = JSON.parse(await readFile(this.pathFor(predictionId), "utf8")) as StoredEntry;
+    } catch (err) {
+      if (isNotFound(err)) {
+        return undefined;
+      }
+      throw err;
+    }
+    if (entry.expiresAt <= Date.now()) {
+      await this.delete(predictionId);
+      return undefined;
+    }
+    return entry.state;
+  }
+
+  async set(predictionId: string, state: PredictionTrackingState, ttlSeconds: number): Promise<void> {
+    await this.ensureDirectory();
+    const entry: StoredEntry = { state, expiresAt: Date.now() + ttlSeconds * 1000 };
+    const path = this.pathFor(predictionId);
+    // Unique per write, so concurrent writes of the same entry don't share a temporary file
+    const tempPath = `${path}.${process.pid}.${randomUUID()}.tmp`;
+    await writeFile(tempPath, JSON.stringify(entry), "utf8");
+    await rename(tempPath, path);
+  }
+
+  async delete(predictionId: string): Promise<void> {
+    try {
+      await unlink(this.pathFor(predictionId));
+    } catch (err) {
+      if (!isNotFound(err)) {
+        throw err;
+      }
+    }
+  }
+
+  /**
+   * Removes expired entries from the directory
+   * Entries are also removed lazily when read, so calling this is optional
+   *
+   * @returns The number of entries removed
+   */
+  async prune(): Promise<number> {
+    let files: string[];
+    try {
+      files = await readdir(this.directory);
+    } catch (err) {
+      if (isNotFound(err)) {
+        return 0;
+      }
+      throw err;
+    }
+
+    const now = Date.now();
+    let removed = 0;
+    for (const file of files) {
+      if (!file.endsWith(".json")) {
+        continue;
+      }
+      const path = join(this.directory, file);
+      try {
+        const entry = JSON.parse(await readFile(path, "utf8")) as StoredEntry;
+        if (entry.expiresAt <= now) {
+          await unlink(path);
+          removed++;
+        }
+      } catch (err) {
+        // Another process may have deleted the entry in the meantime
+        if (!isNotFound(err)) {
+          throw err;
+        }
+      }
+    }
+    return removed;
+  }
+
+  private ensureDirectory(): Promise<unknown> {
+    this.ready ??= mkdir(this.directory, { recursive: true }).catch((err: unknown) => {
+      // Try again on the next write rather than failing every later one
+      this.ready = undefined;
+      throw err;
+    });
+    return this.ready;
+  }
+
+  private pathFor(predictionId: string): string {
+    return join(this.directory, `${encodeURIComponent(predictionId)}.json`);
+  }
+}
+
+/**
+ * Whether a filesystem error means the file doesn't exist
+ */
+function isNotFound(err: unknown): boolean {
+  return typeof err === "object" && err !== null && (err as { code?: unknown }).code === "ENOENT";
+}
@@ -0,0 +1,64 @@
+/**
+ * A trace or span in progress, passed to the callback of trace() and span()
+ *
+ * Generations run inside the callback are linked to the span automatically.
+ * Input and output state are only captured when set, and follow the client's
+ * privacy mode and redaction rules.
+ */
+export class TraceSpan {
+  /** ID shared by the trace and everything in it */
+  readonly traceId: string;
+  /** ID of this span; for the trace itself this equals the trace ID */
+  readonly spanId: string;
+  /** Name of this span */
+  readonly name: string;
+  /** Input state set with setInput() */
+  input: unknown;
+  /** Output state set with setOutput() */
+  output: unknown;
+  /** Custom properties set with setProperties() */
+  readonly properties: Record<string, unknown> = {};
+
+  private startChild: <T>(name: string, fn: (span: TraceSpan) => T | Promise<T>) => Promise<T>;
+
+  constructor(
+    name: string,
+    traceId: string,
+    spanId: string,
+    startChild: <T>(name: string, fn: (span: TraceSpan) => T | Promise<T>) => Promise<T>
+  ) {
+    this.name = name;
+    this.traceId = traceId;
+    this.spanId = spanId;
+    this.startChild = startChild;
+  }
+
+  /** Sets the input state captured as `$ai_input_state` */
+  setInput(input: unknown): this {
+    this.input = input;
+    return this;
+  }
+
+  /** Sets the output state captured as `$ai_output_state` */
+  setOutput(output: unknown): this {
+    this.output = output;
+    return this;
+  }
+
+  /** Adds custom properties to the span event */
+  setProperties(properties: Record<string, unknown>): this {
+    Object.assign(this.properties, properties);
+    return this;
+  }
+
+  /**
+   * Runs a function as a child span of this span
+   *
+   * @param name - Name of the child span
+   * @param fn - Function to run inside the child span
+   * @returns The return value of `fn`
+   */
+  span<T>(name: string, fn: (span: TraceSpan) => T | Promise<T>): Promise<T> {
+    return this.startChild(name, fn);
+  }
+}
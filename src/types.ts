@@ -1,4 +1,5 @@
 import type { PostHog } from "posthog-node";
+import type { GenerationAggregator } from "./aggregate.js";
 
 /**
  * PostHog-specific options that can be passed to any wrapped method
@@ -8,20 +9,143 @@ export interface PostHogTrackingOptions {
   posthogDistinctId?: string;
   /** A trace ID to group related AI events together */
   posthogTraceId?: string;
+  /** ID of the span or trace this generation belongs to */
+  posthogParentId?: string;
   /** Custom properties to include in the PostHog event */
   posthogProperties?: Record<string, unknown>;
   /** Group identifiers for PostHog group analytics */
   posthogGroups?: Record<string, string>;
   /** When true, excludes input/output from the event (for privacy) */
   posthogPrivacyMode?: boolean;
+  /** Redaction rules for this call, merged over the client-wide `redact` option */
+  posthogRedact?: RedactOptions;
+}
+
+/**
+ * Options for calls that produce a generation, linking it to feedback and
+ * metrics captured later with feedback() and captureMetric()
+ */
+export interface GenerationTrackingOptions {
+  /** ID of the generation, sent as `$ai_span_id` (defaults to a random UUID) */
+  posthogGenerationId?: string;
+  /** Called with the generation's ID, trace ID and distinct ID when the call returns or throws; errors it throws are ignored */
+  posthogOnGeneration?: (generation: GenerationReference) => void;
+}
+
+/**
+ * Identifies a generation for feedback() and captureMetric()
+ */
+export interface GenerationReference {
+  /** ID of the generation, its `$ai_span_id` */
+  generationId: string;
+  /** Trace ID of the generation, if it had one */
+  traceId?: string;
+  /** Distinct ID the generation was attributed to */
+  distinctId?: string;
+}
+
+/**
+ * Feedback on a generation, sent as a `$ai_feedback` event
+ */
+export interface FeedbackOptions {
+  /** Numeric rating, e.g. 1 for thumbs up and 0 for thumbs down */
+  score?: number;
+  /** Categorical rating, e.g. "helpful" */
+  label?: string;
+  /** Free-text comment; left out in privacy mode */
+  comment?: string;
+  /** Distinct ID of the person giving feedback (defaults to the generation's) */
+  distinctId?: string;
+  /** Trace ID of the generation, for generations captured by another process */
+  traceId?: string;
+  /** Custom properties to include in the event */
+  properties?: Record<string, unknown>;
+}
+
+/**
+ * An evaluation result for a generation, sent as a `$ai_metric` event
+ */
+export interface MetricOptions {
+  /** Name of the metric, e.g. "clip_score" */
+  name: string;
+  /** Value of the metric */
+  value: number | string | boolean;
+  /** Distinct ID to attribute the metric to (defaults to the generation's) */
+  distinctId?: string;
+  /** Trace ID of the generation, for generations captured by another process */
+  traceId?: string;
+  /** Custom properties to include in the event */
+  properties?: Record<string, unknown>;
+}
+
+/**
+ * Field-level redaction applied to inputs and outputs before they are captured
+ */
+export interface RedactOptions {
+  /** Top-level input fields to keep; all other input fields are dropped */
+  allowFields?: string[];
+  /** Field names to drop from inputs and outputs at any depth */
+  omitFields?: string[];
+  /** Patterns to mask in string values, replaced with "[REDACTED]" unless a replacement is given */
+  mask?: Array<RegExp | { pattern: RegExp; replacement: string }>;
+  /** Maximum length of string values before they are truncated */
+  maxStringLength?: number;
+  /** Custom hook run on the input before the rules above */
+  redactInput?: (input: unknown) => unknown;
+  /** Custom hook run on the output before the rules above */
+  redactOutput?: (output: unknown) => unknown;
+}
+
+/**
+ * Tracking options for instrumentReplicate(), also accepted by the Replicate wrapper
+ */
+export interface InstrumentationOptions {
+  /** PostHog client to send events to; one of `posthog` and `sink` is required */
+  posthog?: PostHog;
+  /** Sink to send events to, alongside the PostHog client when both are given */
+  sink?: TelemetrySink;
+  /** Called when a sink throws while capturing an event (defaults to console.warn); sink errors never fail the call */
+  onSinkError?: (error: unknown, record: TelemetryRecord) => void;
+  /** Per-model pricing used to estimate cost, merged over DEFAULT_MODEL_PRICING */
+  pricing?: Record<string, ModelPricing>;
+  /** How predictions.create() and predictions.get() calls are captured (defaults to "per-call") */
+  asyncPredictionCapture?: AsyncPredictionCaptureMode;
+  /** In "completion" mode, send intermediate polls as `$ai_span` events instead of dropping them */
+  capturePollSpans?: boolean;
+  /** Where tracking options are kept between create() and get() (defaults to a bounded in-memory LRU) */
+  predictionTrackingStore?: PredictionTrackingStore;
+  /** How long tracking options are kept for predictions that never complete, in seconds (defaults to 24 hours) */
+  predictionTrackingTtl?: number;
+  /** Redaction rules applied to every captured input and output */
+  redact?: RedactOptions;
+  /** Tracking options applied to every call, under the per-call options */
+  trackingDefaults?: PostHogTrackingOptions;
+  /** Sampling policy for captured events (defaults to sending every event) */
+  sampling?: SamplingOptions;
+  /** Send periodic summary events instead of one event per generation */
+  aggregation?: AggregationOptions;
+  /** Retry policy for failed requests (defaults to no retries) */
+  retry?: RetryOptions;
+  /** Send prediction logs as `$ai_logs`, truncated and masked (defaults to false) */
+  captureLogs?: boolean | LogCaptureOptions;
+  /** Queue time in seconds from which a prediction is reported as a cold start (defaults to 5) */
+  coldStartThreshold?: number;
+  /** Output formatters replacing the built-in ones, keyed by "owner/name" or "owner/name:version" */
+  outputFormatters?: Record<string, OutputFormatter>;
+  /** Look up the latest version of models called without one; true uses models.versions.list() (defaults to no lookup) */
+  modelVersionLookup?: boolean | ModelVersionLookup;
+  /** Output validators, keyed by "owner/name" or "owner/name:version"; failures are recorded as `$ai_validation_error` */
+  outputValidators?: Record<string, OutputValidator>;
+  /** Usage limits checked before every call; calls over a limit are rejected with QuotaExceededError */
+  quota?: QuotaOptions;
+  /** Cache run() outputs by model and input; true uses the defaults (defaults to off) */
+  cache?: boolean | CacheOptions;
 }
 
 /**
  * Configuration options for the Replicate wrapper
  */
-export interface ReplicateOptions {
-  /** PostHog client instance for sending events */
-  posthog: PostHog;
+export interface ReplicateOptions extends InstrumentationOptions {
   /** Replicate API token (defaults to REPLICATE_API_TOKEN env var) */
   auth?: string;
   /** Custom user agent string */
@@ -30,14 +154,437 @@ export interface ReplicateOptions {
   baseUrl?: string;
   /** Custom fetch implementation */
   fetch?: typeof fetch;
+  /** Whether run() returns files as FileOutput streams rather than URLs (defaults to true) */
+  useFileOutput?: boolean;
 }
 
+/**
+ * Sampling policy for captured events
+ *
+ * Sampling is deterministic by trace ID, or distinct ID when there is no
+ * trace, so a trace is never split. Kept events carry `$ai_sample_rate`.
+ */
+export interface SamplingOptions {
+  /** Fraction of events to keep, between 0 and 1 (defaults to 1) */
+  rate?: number;
+  /** Per-model rates overriding `rate`, keyed by "owner/name" or "owner/name:version" */
+  modelRates?: Record<string, number>;
+  /** Whether to keep every error event regardless of the rate (defaults to true) */
+  keepErrors?: boolean;
+}
+
+/**
+ * Options for aggregated capture
+ *
+ * Generations are buffered per model and distinct ID and sent as one
+ * `$ai_generation_summary` event with counts, latency percentiles and summed
+ * tokens and cost. Inputs, outputs and trace linkage are not kept.
+ */
+export interface AggregationOptions {
+  /** How often buffered summaries are sent, in milliseconds (defaults to 60 seconds) */
+  interval?: number;
+  /** Generations per model and distinct ID after which a summary is sent early (defaults to 1,000) */
+  maxCount?: number;
+  /** Models to aggregate, as "owner/name" or "owner/name:version" (defaults to every model) */
+  models?: string[];
+}
+
+/**
+ * Retry policy for failed requests
+ *
+ * Rate-limited requests (429) are retried for every operation. run() and
+ * stream() only retry the request that creates their prediction: retrying
+ * them after a poll or the stream was rate limited would create, and bill,
+ * a second prediction, and the Replicate client already retries those reads.
+ * Server errors (5xx) and network failures are only retried for idempotent
+ * operations: predictions.get() and predictions.cancel(). A `Retry-After`
+ * header is honored, and a request asked to wait longer than `maxDelay` is
+ * not retried. These retries come on top of the ones the Replicate client
+ * makes itself.
+ */
+export interface RetryOptions {
+  /** Maximum number of attempts, including the first (defaults to 3) */
+  maxAttempts?: number;
+  /** Delay before the first retry in milliseconds, doubled for every later retry (defaults to 500) */
+  initialDelay?: number;
+  /** Longest delay between attempts in milliseconds (defaults to 30 seconds) */
+  maxDelay?: number;
+  /** Whether to randomize delays so clients don't retry in lockstep (defaults to true) */
+  jitter?: boolean;
+  /** Send every failed attempt as its own error `$ai_generation` event (defaults to false) */
+  captureFailedAttempts?: boolean;
+}
+
+/**
+ * Usage limits enforced before calls reach Replicate
+ *
+ * Limits count calls and estimated spend over rolling windows, per distinct
+ * ID, per group or per model. run(), stream(), predictions.create() and
+ * deployments.predictions.create() are checked before they make a request;
+ * a call over a limit is rejected with QuotaExceededError and captured as an
+ * error event with `$ai_error_type: "quota_exceeded"`.
+ */
+export interface QuotaOptions {
+  /** The limits to enforce; a call must be within all of those that apply to it */
+  limits: QuotaLimit[];
+  /** Where usage is counted (defaults to an InMemoryQuotaStore) */
+  store?: QuotaStore;
+}
+
+/**
+ * A limit on calls or estimated spend over a rolling window
+ *
+ * Spend is the estimated cost of finished generations, as sent in
+ * `$ai_total_cost_usd`, so a call is only rejected once earlier calls have
+ * reached the limit.
+ */
+export interface QuotaLimit {
+  /** What usage is counted per: each distinct ID, each group of `groupType`, or each model */
+  per: "distinctId" | "group" | "model";
+  /** Group type counted per, when `per` is "group" */
+  groupType?: string;
+  /** Models the limit applies to, as "owner/name" or "owner/name:version" (defaults to every model) */
+  models?: string[];
+  /** Length of the rolling window in seconds */
+  window: number;
+  /** Maximum number of calls in the window */
+  maxCalls?: number;
+  /** Maximum estimated spend in USD in the window */
+  maxCost?: number;
+}
+
+/**
+ * Calls and estimated spend counted against a quota
+ */
+export interface QuotaUsage {
+  /** Number of calls */
+  calls: number;
+  /** Estimated spend in USD */
+  cost: number;
+}
+
+/**
+ * Storage for quota usage
+ *
+ * Implement this to share counts between processes, e.g. with a Redis
+ * sorted set per key.
+ */
+export interface QuotaStore {
+  /** Returns the usage recorded for a key since a time, in milliseconds since the epoch */
+  usage(key: string, since: number): Promise<QuotaUsage>;
+  /** Records usage for a key at the current time, keeping it for at least ttlSeconds */
+  record(key: string, usage: QuotaUsage, ttlSeconds: number): Promise<void>;
+}
+
+/**
+ * Options for the run() response cache
+ *
+ * Repeated calls with the same model and input are answered from the cache
+ * without calling Replicate, and still captured as generations with
+ * `$ai_cache_hit: true` and no cost. Calls to a model without a version are
+ * cached under the model name, so they can be answered with an output of a
+ * previous version until it expires; pin the version or enable
+ * `modelVersionLookup` to cache per version.
+ */
+export interface CacheOptions {
+  /** How long outputs are cached, in seconds (defaults to 1 hour) */
+  ttl?: number;
+  /** Models to cache, as "owner/name" or "owner/name:version" (defaults to every model) */
+  models?: string[];
+  /** Where outputs are cached (defaults to an InMemoryResponseCacheStore) */
+  store?: ResponseCacheStore;
+}
+
+/**
+ * A cached run() output
+ */
+export interface CachedResponse {
+  /** The output of the call */
+  output: unknown;
+  /** Model identifier of the call that produced the output, including its version when known */
+  model: string;
+}
+
+/**
+ * Storage for cached run() outputs
+ *
+ * Implement this to share the cache between processes. Responses are plain
+ * JSON data. A store that rejects doesn't fail calls: a failed read calls
+ * the model and a failed write leaves the output uncached.
+ */
+export interface ResponseCacheStore {
+  /** Returns the response cached under a key, or undefined if missing or expired */
+  get(key: string): Promise<CachedResponse | undefined>;
+  /** Caches a response, expiring it after ttlSeconds */
+  set(key: string, response: CachedResponse, ttlSeconds: number): Promise<void>;
+}
+
+/**
+ * Options for capturing prediction logs
+ *
+ * Logs are masked with the `mask` patterns of the redaction rules and
+ * dropped in privacy mode.
+ */
+export interface LogCaptureOptions {
+  /** Maximum length of captured logs; the end of longer logs is kept (defaults to 4,000 characters) */
+  maxLength?: number;
+}
+
+/**
+ * An event ready to be sent, in the shape of a PostHog capture call
+ */
+export interface TelemetryRecord {
+  /** Event name: `$ai_generation`, `$ai_span`, `$ai_trace`, `$ai_generation_summary`, `$ai_feedback` or `$ai_metric` */
+  event: string;
+  /** Distinct ID of the person the event belongs to */
+  distinctId: string;
+  /** Event properties, already sampled, redacted and stripped of media */
+  properties: Record<string, unknown>;
+  /** Group identifiers for PostHog group analytics */
+  groups?: Record<string, string>;
+}
+
+/**
+ * Destination for captured events
+ *
+ * A PostHog client can be used as a sink directly; see PostHogSink,
+ * OpenTelemetrySink and FanOutSink for the sinks that ship with this package.
+ */
+export interface TelemetrySink {
+  /** Sends or buffers an event; must not throw for transient delivery failures */
+  capture(record: TelemetryRecord): void;
+}
+
+/**
+ * Normalized cause of a failed or canceled call, sent as `$ai_error_type`
+ *
+ * - `rate_limited`: the API rejected the request with 429
+ * - `auth`: the API token is missing, invalid or lacks access or billing
+ * - `invalid_input`: the API rejected the request, e.g. failed input validation
+ * - `model_error`: the prediction ran and the model failed
+ * - `timeout`: the request or prediction took too long
+ * - `network`: the request never got a response
+ * - `canceled`: the request was aborted or the prediction canceled
+ * - `nsfw_filtered`: the input or output was flagged by a safety checker
+ * - `server_error`: the API failed with a 5xx status
+ * - `quota_exceeded`: the call was rejected by a quota limit before reaching Replicate
+ * - `unknown`: none of the above
+ */
+export type ErrorType =
+  | "rate_limited"
+  | "auth"
+  | "invalid_input"
+  | "model_error"
+  | "timeout"
+  | "network"
+  | "canceled"
+  | "nsfw_filtered"
+  | "server_error"
+  | "quota_exceeded"
+  | "unknown";
+
+/**
+ * Tracking values bound to a scoped client by withContext(), or propagated
+ * to nested calls by withPostHogContext()
+ */
+export interface TrackingContext {
+  /** The distinct ID to associate with events (usually user ID) */
+  distinctId?: string;
+  /** A trace ID to group related AI events together */
+  traceId?: string;
+  /** ID of the span or trace that generations belong to */
+  parentId?: string;
+  /** Custom properties to include in every event */
+  properties?: Record<string, unknown>;
+  /** Group identifiers for PostHog group analytics */
+  groups?: Record<string, string>;
+  /** When true, excludes input/output from events */
+  privacyMode?: boolean;
+}
+
+/**
+ * Capture modes for async predictions
+ *
+ * - `per-call`: one `$ai_generation` event for create() and for every get()
+ * - `completion`: a single `$ai_generation` event once the prediction reaches
+ *   a terminal status, with latency measured from create()
+ */
+export type AsyncPredictionCaptureMode = "per-call" | "completion";
+
+/**
+ * Tracking state recorded by create() and read back by later get() calls
+ */
+export interface PredictionTrackingState {
+  /** PostHog options passed to create() */
+  params: PostHogTrackingOptions;
+  /** When create() was called, in milliseconds since the epoch */
+  createdAt: number;
+  /** Model identifier passed to create() */
+  model?: string;
+  /** Deployment the prediction was created on, as owner/name */
+  deployment?: string;
+  /** ID of the prediction's generation, reused by its completion event */
+  generationId?: string;
+  /** Set once the completion event was sent, so later calls don't send it again */
+  completed?: boolean;
+}
+
+/**
+ * Storage for the tracking state linking create() to later get() calls
+ *
+ * Implement this to share the linkage between processes, e.g. when a
+ * prediction is created by an API server and polled by a worker. State is
+ * JSON-serializable apart from per-call `posthogRedact` rules, which hold
+ * patterns and functions; use the client-wide `redact` option with
+ * persistent stores. Calls aren't failed by a store that rejects: the
+ * prediction is captured without its stored tracking options instead.
+ */
+export interface PredictionTrackingStore {
+  /** Returns the state stored for a prediction, or undefined if missing or expired */
+  get(predictionId: string): Promise<PredictionTrackingState | undefined>;
+  /** Stores the state for a prediction, expiring it after ttlSeconds */
+  set(predictionId: string, state: PredictionTrackingState, ttlSeconds: number): Promise<void>;
+  /** Removes the state for a prediction */
+  delete(predictionId: string): Promise<void>;
+}
+
+/**
+ * Compact description of a media value captured in place of its contents
+ */
+export interface MediaDescriptor {
+  /** Marks the value as a media descriptor */
+  type: "media";
+  /** Mime type, detected from the data, data URI, Blob or URL extension */
+  mime_type?: string;
+  /** Size in bytes */
+  size?: number;
+  /** Hex SHA-256 of the contents, when they are available synchronously */
+  sha256?: string;
+  /** URL the media can be fetched from */
+  url?: string;
+  /** File name, for File inputs */
+  name?: string;
+}
+
+/**
+ * A typed part of a formatted model output
+ *
+ * Media parts carry what is known about the media from its MediaDescriptor;
+ * embedding parts summarize a vector instead of listing it.
+ */
+export type OutputContentPart =
+  | { type: "text"; text: string }
+  | { type: "image" | "audio" | "video"; url?: string; mime_type?: string; size?: number; sha256?: string }
+  | { type: "embedding"; dimensions: number; norm: number };
+
+/**
+ * Formats a model output as the content of the captured `$ai_output_choices` message
+ *
+ * Formatters receive the output after media has been replaced with
+ * MediaDescriptors and redaction rules have been applied, and return the
+ * message content: a string, an array of OutputContentPart, or any other
+ * JSON-serializable value.
+ *
+ * @param output - The model output
+ * @param model - The model identifier of the call
+ */
+export type OutputFormatter = (output: unknown, model: string) => unknown;
+
+/**
+ * Looks up the latest version hash of a model, for `$ai_model_version`
+ *
+ * @param owner - The model owner
+ * @param name - The model name
+ * @returns The version hash, or undefined if it can't be found
+ */
+export type ModelVersionLookup = (owner: string, name: string) => Promise<string | undefined>;
+
+/**
+ * Pricing for a single model
+ *
+ * Language models are billed per token; most other models are billed for the
+ * time they spend running on a given hardware SKU.
+ */
+export interface ModelPricing {
+  /** USD per input token */
+  inputCostPerToken?: number;
+  /** USD per output token */
+  outputCostPerToken?: number;
+  /** USD per second of predict time */
+  costPerSecond?: number;
+  /** Hardware SKU looked up in HARDWARE_PRICING when costPerSecond is not set */
+  hardware?: string;
+}
+
+/**
+ * Usage reported by Replicate in a prediction's metrics
+ */
+export interface PredictionUsage {
+  /** Number of input tokens (language models only) */
+  inputTokens?: number;
+  /** Number of output tokens (language models only) */
+  outputTokens?: number;
+  /** Time the model spent running, in seconds */
+  predictTime?: number;
+}
+
+/**
+ * Input and output types of models, keyed by "owner/name"
+ *
+ * Empty by default. Declare the models you call with declaration merging,
+ * and run() and stream() check their input and type run()'s output:
+ *
+ * ```typescript
+ * declare module "posthog-replicate" {
+ *   interface ModelSchemas {
+ *     "stability-ai/sdxl": { input: { prompt: string; width?: number }; output: string[] };
+ *   }
+ * }
+ * ```
+ */
+export interface ModelSchemas {}
+
+/**
+ * A model identifier: "owner/name" or "owner/name:version"
+ */
+export type ModelIdentifier = `${string}/${string}` | `${string}/${string}:${string}`;
+
+/**
+ * The ModelSchemas key for a model identifier, without its version
+ */
+type SchemaKey<M extends string> = M extends `${infer Model}:${string}` ? Model : M;
+
+/**
+ * Input type declared for a model in ModelSchemas, or `object` for undeclared models
+ */
+export type ModelInput<M extends string> = SchemaKey<M> extends keyof ModelSchemas
+  ? ModelSchemas[SchemaKey<M>] extends { input: infer Input extends object } ? Input : object
+  : object;
+
+/**
+ * Output type declared for a model in ModelSchemas, or `object` for undeclared models
+ */
+export type ModelOutput<M extends string> = SchemaKey<M> extends keyof ModelSchemas
+  ? ModelSchemas[SchemaKey<M>] extends { output: infer Output } ? Output : object
+  : object;
+
+/**
+ * Checks a model output at runtime, e.g. against the schema declared in ModelSchemas
+ *
+ * Return a message, or throw, when the output doesn't match; any other
+ * return value, or none, means it does. Validation never fails the call.
+ *
+ * @param output - The model output, before media replacement and redaction
+ * @param model - The model identifier of the call
+ */
+export type OutputValidator = (output: unknown, model: string) => unknown;
+
 /**
  * Options for the run() method, combining Replicate options with PostHog tracking
  */
-export interface RunOptions extends PostHogTrackingOptions {
+export interface RunOptions<M extends string = string> extends PostHogTrackingOptions, GenerationTrackingOptions {
   /** Input parameters for the model */
-  input: object;
+  input: ModelInput<M>;
   /** Wait options for polling */
   wait?: {
     /** Polling interval in milliseconds */
@@ -51,6 +598,10 @@ export interface RunOptions extends PostHogTrackingOptions {
   webhook?: string;
   /** Webhook events filter */
   webhook_events_filter?: Array<"start" | "output" | "logs" | "completed">;
+  /** Retry policy for this call, merged over the client-wide `retry` option; false disables retries */
+  retry?: RetryOptions | false;
+  /** Set to false to bypass the response cache for this call, neither reading nor writing it */
+  cache?: boolean;
   /** Signal for aborting the request */
   signal?: AbortSignal;
 }
@@ -58,7 +609,7 @@ export interface RunOptions extends PostHogTrackingOptions {
 /**
  * Options for predictions.create(), combining Replicate options with PostHog tracking
  */
-export interface PredictionCreateOptions extends PostHogTrackingOptions {
+export interface PredictionCreateOptions extends PostHogTrackingOptions, GenerationTrackingOptions {
   /** Model version ID or model identifier */
   model?: string;
   /** Model version ID */
@@ -73,6 +624,26 @@ export interface PredictionCreateOptions extends PostHogTrackingOptions {
   stream?: boolean;
   /** Wait timeout in ms, boolean, or options */
   wait?: number | boolean | { interval?: number };
+  /** Retry policy for this call, merged over the client-wide `retry` option; false disables retries */
+  retry?: RetryOptions | false;
+  /** Signal for aborting the request */
+  signal?: AbortSignal;
+}
+
+/**
+ * Options for deployments.predictions.create(), combining Replicate options with PostHog tracking
+ */
+export interface DeploymentPredictionCreateOptions extends PostHogTrackingOptions, GenerationTrackingOptions {
+  /** Input parameters for the model */
+  input: object;
+  /** Webhook URL for async notifications */
+  webhook?: string;
+  /** Webhook events filter */
+  webhook_events_filter?: Array<"start" | "output" | "logs" | "completed">;
+  /** Wait timeout in seconds, or true to wait for completion */
+  wait?: number | boolean;
+  /** Retry policy for this call, merged over the client-wide `retry` option; false disables retries */
+  retry?: RetryOptions | false;
   /** Signal for aborting the request */
   signal?: AbortSignal;
 }
@@ -81,6 +652,18 @@ export interface PredictionCreateOptions extends PostHogTrackingOptions {
  * Options for predictions.get(), combining Replicate options with PostHog tracking
  */
 export interface PredictionGetOptions extends PostHogTrackingOptions {
+  /** Retry policy for this call, merged over the client-wide `retry` option; false disables retries */
+  retry?: RetryOptions | false;
+  /** Signal for aborting the request */
+  signal?: AbortSignal;
+}
+
+/**
+ * Options for predictions.cancel(), combining Replicate options with PostHog tracking
+ */
+export interface PredictionCancelOptions extends PostHogTrackingOptions {
+  /** Retry policy for this call, merged over the client-wide `retry` option; false disables retries */
+  retry?: RetryOptions | false;
   /** Signal for aborting the request */
   signal?: AbortSignal;
 }
@@ -88,13 +671,15 @@ export interface PredictionGetOptions extends PostHogTrackingOptions {
 /**
  * Options for the stream() method, combining Replicate options with PostHog tracking
  */
-export interface StreamOptions extends PostHogTrackingOptions {
+export interface StreamOptions<M extends string = string> extends PostHogTrackingOptions, GenerationTrackingOptions {
   /** Input parameters for the model */
-  input: object;
+  input: ModelInput<M>;
   /** Webhook URL for async notifications */
   webhook?: string;
   /** Webhook events filter */
   webhook_events_filter?: Array<"start" | "output" | "logs" | "completed">;
+  /** Retry policy for this call, merged over the client-wide `retry` option; false disables retries */
+  retry?: RetryOptions | false;
   /** Signal for aborting the request */
   signal?: AbortSignal;
 }
@@ -103,7 +688,7 @@ export interface StreamOptions extends PostHogTrackingOptions {
  * Internal options for capturing PostHog events
  */
 export interface CaptureOptions {
-  /** The model identifier (e.g., "openai/clip") */
+  /** The model identifier (e.g., "openai/clip" or "openai/clip:version"), split into `$ai_model` and `$ai_model_version` */
   model: string;
   /** Time taken for the API call in seconds */
   latency: number;
@@ -113,6 +698,16 @@ export interface CaptureOptions {
   isError: boolean;
   /** Error message or object if isError is true */
   error?: unknown;
+  /** Whether the prediction or request was canceled */
+  canceled?: boolean;
+  /** Whether the error was reported by the model, in a failed prediction, rather than by the request */
+  modelFailure?: boolean;
+  /** Prediction logs, used to classify model failures and sent as `$ai_logs` when log capture is on */
+  logs?: string;
+  /** How logs are captured; logs are not sent without it */
+  logCapture?: LogCaptureOptions;
+  /** Number of retries before the final attempt, when a retry policy applies */
+  retryCount?: number;
   /** Input sent to the model */
   input?: unknown;
   /** Output received from the model */
@@ -121,16 +716,108 @@ export interface CaptureOptions {
   distinctId?: string;
   /** Trace ID for grouping related events */
   traceId?: string;
+  /** ID of the parent span or trace */
+  parentId?: string;
   /** Custom properties to include */
   customProperties?: Record<string, unknown>;
   /** Group identifiers */
   groups?: Record<string, string>;
   /** Whether to exclude input/output from tracking */
   privacyMode?: boolean;
+  /** Redaction rules applied to input/output before formatting */
+  redact?: RedactOptions;
   /** Whether this was a streaming request */
   stream?: boolean;
+  /** Timing and throughput of a streaming request */
+  streamMetrics?: StreamMetrics;
   /** Prediction ID from Replicate */
   predictionId?: string;
+  /** ID of the generation, sent as `$ai_span_id` */
+  generationId?: string;
+  /** Token counts and predict time from the prediction metrics */
+  usage?: PredictionUsage;
+  /** Pricing used to estimate the cost of this generation */
+  pricing?: ModelPricing;
+  /** Formatter registered for the model, used instead of the built-in formatting */
+  outputFormatter?: OutputFormatter;
+  /** Validator registered for the model, run on successful outputs */
+  outputValidator?: OutputValidator;
+  /** Sampling policy deciding whether the event is sent */
+  sampling?: SamplingOptions;
+  /** Aggregator that buffers the generation into a summary instead of sending it */
+  aggregator?: GenerationAggregator;
+}
+
+/**
+ * Timing and throughput measured while consuming a stream
+ */
+export interface StreamMetrics {
+  /** Seconds from the start of the call to the first output event */
+  timeToFirstToken?: number;
+  /** Number of output events received */
+  chunkCount: number;
+  /** Output events per second between the first and last output event */
+  tokensPerSecond?: number;
+  /** Seconds between the last output event and the done event */
+  doneDelay?: number;
+  /** Whether the consumer stopped iterating before the stream finished */
+  stoppedEarly: boolean;
+}
+
+/**
+ * Internal options for capturing PostHog span and trace events
+ */
+export interface SpanCaptureOptions {
+  /** Name of the span */
+  name: string;
+  /** Duration of the span in seconds */
+  latency: number;
+  /** Whether the span resulted in an error */
+  isError?: boolean;
+  /** Error message or object if isError is true */
+  error?: unknown;
+  /** Distinct ID for PostHog */
+  distinctId?: string;
+  /** Trace ID for grouping related events */
+  traceId?: string;
+  /** Unique ID of this span */
+  spanId?: string;
+  /** ID of the parent span or trace */
+  parentId?: string;
+  /** Input of the step the span describes */
+  inputState?: unknown;
+  /** Output of the step the span describes */
+  outputState?: unknown;
+  /** Custom properties to include */
+  customProperties?: Record<string, unknown>;
+  /** Group identifiers */
+  groups?: Record<string, string>;
+  /** Whether to exclude input/output state from tracking */
+  privacyMode?: boolean;
+  /** Redaction rules applied to input/output state */
+  redact?: RedactOptions;
+  /** Sampling policy deciding whether the event is sent */
+  sampling?: SamplingOptions;
+}
+
+/**
+ * Internal options for capturing PostHog feedback and metric events
+ */
+export interface EvaluationCaptureOptions {
+  /** ID of the generation the event is about */
+  generationId: string;
+  /** Model identifier of the generation, when known */
+  model?: string;
+  /** Distinct ID for PostHog */
+  distinctId?: string;
+  /** Trace ID of the generation */
+  traceId?: string;
+  /** Custom properties to include */
+  customProperties?: Record<string, unknown>;
+  /** Group identifiers */
+  groups?: Record<string, string>;
+  /** Sampling policy deciding whether the event is sent */
+  sampling?: SamplingOptions;
 }
 
 /**
@@ -140,5 +827,10 @@ export const POSTHOG_CONSTANTS = {
   PROVIDER: "replicate",
   BASE_URL: "https://api.replicate.com",
   EVENT_NAME: "$ai_generation",
+  SPAN_EVENT_NAME: "$ai_span",
+  TRACE_EVENT_NAME: "$ai_trace",
+  SUMMARY_EVENT_NAME: "$ai_generation_summary",
+  FEEDBACK_EVENT_NAME: "$ai_feedback",
+  METRIC_EVENT_NAME: "$ai_metric",
 } as const;
 
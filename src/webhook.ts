@@ -0,0 +1,220 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { Prediction } from "replicate";
+import type { PostHogReplicate } from "./index.js";
+import { LruMap } from "./lru.js";
+
+/**
+ * Most webhook IDs a handler remembers for skipping repeated deliveries
+ */
+const MAX_SEEN_WEBHOOKS = 1000;
+
+/**
+ * Options for createPostHogWebhookHandler()
+ */
+export interface WebhookHandlerOptions {
+  /** The wrapper or instrumented client whose create() calls stored the tracking options */
+  replicate: Pick<PostHogReplicate, "captureWebhookPrediction">;
+  /** Webhook signing secret from replicate.webhooks.default.secret.get() (starts with "whsec_") */
+  secret: string;
+  /** Maximum age of a webhook in seconds before it is rejected (defaults to 300) */
+  toleranceSeconds?: number;
+}
+
+/**
+ * A webhook handler usable with Fetch-API servers and plain Node `http`
+ */
+export interface PostHogWebhookHandler {
+  (request: Request): Promise<Response>;
+  (req: IncomingMessage, res: ServerResponse): Promise<void>;
+}
+
+/**
+ * Headers and raw body of a webhook request, as signed by Replicate
+ */
+export interface WebhookRequestData {
+  /** Value of the `webhook-id` header */
+  id: string | null | undefined;
+  /** Value of the `webhook-timestamp` header */
+  timestamp: string | null | undefined;
+  /** Value of the `webhook-signature` header */
+  signature: string | null | undefined;
+  /** Raw request body */
+  body: string;
+}
+
+/**
+ * Verifies the signature of a Replicate webhook
+ *
+ * Replicate signs `${id}.${timestamp}.${body}` with HMAC-SHA256 using the
+ * base64 key after the "whsec_" prefix. The signature header may contain
+ * several space-separated "v1,<signature>" entries.
+ *
+ * @param data - Webhook headers and raw body
+ * @param secret - Webhook signing secret
+ * @param toleranceSeconds - Maximum age of the webhook in seconds
+ * @returns Whether the signature is valid and the timestamp is recent
+ */
+export function verifyWebhookSignature(
+  data: WebhookRequestData,
+  secret: string,
+  toleranceSeconds = 300
+): boolean {
+  const { id, timestamp, signature, body } = data;
+  if (!id || !timestamp || !signature) {
+    return false;
+  }
+
+  const timestampSeconds = Number(timestamp);
+  if (!Number.isFinite(timestampSeconds) || Math.abs(Date.now() / 1000 - timestampSeconds) > toleranceSeconds) {
+    return false;
+  }
+
+  const key = Buffer.from(secret.startsWith("whsec_") ? secret.slice("whsec_".length) : secret, "base64");
+  const expected = createHmac("sha256", key).update(`${id}.${timestamp}.${body}`).digest();
+
+  return signature.split(" ").some((entry) => {
+    const [version, value] = entry.split(",");
+    if (version !== "v1" || !value) {
+      return false;
+    }
+    const actual = Buffer.from(value, "base64");
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+  });
+}
+
+/**
+ * Creates a handler that captures `$ai_generation` events from Replicate webhooks
+ *
+ * The handler verifies the webhook signature, parses the prediction and, once
+ * it reaches a terminal status, sends the completion event with the tracking
+ * options stored when the prediction was created. Non-terminal webhooks
+ * (start, output, logs) are acknowledged without sending an event.
+ *
+ * Replicate may deliver a webhook more than once, so deliveries whose
+ * `webhook-id` was already handled are acknowledged without sending the
+ * event again.
+ *
+ * Responds with 401 for invalid signatures, 400 for malformed payloads, 500
+ * when the body can't be read or the event can't be captured, and 200
+ * otherwise.
+ *
+ * @example
+ * ```typescript
+ * const handler = createPostHogWebhookHandler({
+ *   replicate,
+ *   secret: process.env.REPLICATE_WEBHOOK_SECRET!,
+ * });
+ *
+ * // Fetch-API servers (Bun, Deno, Next.js route handlers)
+ * export const POST = (request: Request) => handler(request);
+ *
+ * // Plain Node http
+ * http.createServer((req, res) => handler(req, res));
+ * ```
+ */
+export function createPostHogWebhookHandler(options: WebhookHandlerOptions): PostHogWebhookHandler {
+  const { replicate, secret, toleranceSeconds } = options;
+  /** IDs of the webhooks handled or being handled */
+  const seen = new LruMap<string, true>(MAX_SEEN_WEBHOOKS);
+
+  async function handleWebhook(data: WebhookRequestData): Promise<number> {
+    const { id } = data;
+    if (!id || !verifyWebhookSignature(data, secret, toleranceSeconds)) {
+      return 401;
+    }
+    if (seen.has(id)) {
+      return 200;
+    }
+
+    let prediction: Prediction;
+    try {
+      prediction = JSON.parse(data.body) as Prediction;
+    } catch {
+      return 400;
+    }
+    if (!prediction || typeof prediction !== "object" || typeof prediction.id !== "string") {
+      return 400;
+    }
+
+    // Claimed before capturing, so a delivery arriving meanwhile isn't captured too
+    seen.set(id, true);
+    try {
+      await replicate.captureWebhookPrediction(prediction);
+    } catch (err) {
+      // Let Replicate's retry of the delivery capture it
+      seen.delete(id);
+      throw err;
+    }
+    return 200;
+  }
+
+  /**
+   * Handles a webhook, responding with 500 when its body can't be read or its event can't be captured
+   */
+  async function respond(read: () => Promise<WebhookRequestData>): Promise<number> {
+    try {
+      return await handleWebhook(await read());
+    } catch {
+      return 500;
+    }
+  }
+
+  async function handler(request: Request): Promise<Response>;
+  async function handler(req: IncomingMessage, res: ServerResponse): Promise<void>;
+  async function handler(
+    requestOrReq: Request | IncomingMessage,
+    res?: ServerResponse
+  ): Promise<Response | void> {
+    if (res) {
+      const req = requestOrReq as IncomingMessage;
+      const status = await respond(async () => ({
+        id: headerValue(req.headers["webhook-id"]),
+        timestamp: headerValue(req.headers["webhook-timestamp"]),
+        signature: headerValue(req.headers["webhook-signature"]),
+        body: await readNodeBody(req),
+      }));
+      res.statusCode = status;
+      res.end();
+      return;
+    }
+
+    const request = requestOrReq as Request;
+    const status = await respond(async () => ({
+      id: request.headers.get("webhook-id"),
+      timestamp: request.headers.get("webhook-timestamp"),
+      signature: request.headers.get("webhook-signature"),
+      body: await request.text(),
+    }));
+    return new Response(null, { status });
+  }
+
+  return handler;
+}
+
+/**
+ * Normalizes a Node header value to a single string
+ */
+function headerValue(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Reads the raw body of a Node request
+ * Uses a body already read by middleware when it is a string or Buffer
+ */
+async function readNodeBody(req: IncomingMessage): Promise<string> {
+  const preRead = (req as IncomingMessage & { body?: unknown }).body;
+  if (typeof preRead === "string") {
+    return preRead;
+  }
+  if (Buffer.isBuffer(preRead)) {
+    return preRead.toString("utf8");
+  }
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(typeof chunk === "string" ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks).toString("utf8");
+}